@@ -9,12 +9,29 @@ import {
   loadState,
   saveState,
   deserializeSuggestions,
+  deserializeCustomCatalog,
 } from "./engine/persistence";
+import { setCustomCatalog as setEngineCustomCatalog } from "./engine/itemCatalog";
+import type { CatalogItem } from "./engine/itemCatalog";
+import {
+  WORKING_SPACE_LABELS,
+  isWorkingSpace,
+  setWorkingSpace as setEngineWorkingSpace,
+} from "./engine/colorSpace";
+import type { WorkingSpace } from "./engine/colorSpace";
+import type { GamutAdjustment } from "./engine/gamut";
+import type { PaletteRecipe } from "./engine/recipe";
 import "./App.css";
 
 type TabId = "palette" | "room" | "wardrobe";
 
 const saved = loadState();
+const savedSpace: WorkingSpace = isWorkingSpace(saved?.workingSpace) ? saved.workingSpace : "lab";
+setEngineWorkingSpace(savedSpace);
+const savedCatalog = deserializeCustomCatalog(saved?.customCatalog);
+setEngineCustomCatalog(savedCatalog);
+
+const WORKING_SPACES = Object.keys(WORKING_SPACE_LABELS) as WorkingSpace[];
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<TabId>(saved?.activeTab ?? "palette");
@@ -22,6 +39,8 @@ export default function App() {
     saved?.suggestions ? deserializeSuggestions(saved.suggestions) : []
   );
   const [baseColors, setBaseColors] = useState<chroma.Color[]>([]);
+  const [workingSpace, setWorkingSpace] = useState<WorkingSpace>(savedSpace);
+  const [customCatalog, setCustomCatalog] = useState<CatalogItem[]>(savedCatalog);
 
   const paletteRef = useRef<PaletteTabHandle>(null);
   const roomRef = useRef<RoomTabHandle>(null);
@@ -37,17 +56,46 @@ export default function App() {
       harmonyMode: paletteState?.harmonyMode ?? "analogous",
       colorCount: paletteState?.colorCount ?? 4,
       suggestionCount: paletteState?.suggestionCount ?? 3,
-      roomItems: roomState?.roomItems ?? [],
-      selectedTemplate: roomState?.selectedTemplate ?? "",
+      constraints: paletteState?.constraints,
+      paletteAnchors: paletteState?.anchors,
+      home: roomState?.home,
+      roomTemplates: roomState?.roomTemplates,
       fillAlgorithm: roomState?.fillAlgorithm ?? "surface-area",
       manuallyAssigned: roomState?.manuallyAssigned ?? [],
+      roomAnchors: roomState?.anchors,
+      roomRamps: roomState?.useRamps,
+      workingSpace,
+      customCatalog,
     });
-  }, [activeTab]);
+  }, [activeTab, workingSpace, customCatalog]);
 
   useEffect(() => {
     save();
   }, [activeTab, suggestions, baseColors, save]);
 
+  const handleWorkingSpaceChange = (space: WorkingSpace) => {
+    // The engine reads the space at call time, so switch it before
+    // the tabs re-render and rescore.
+    setEngineWorkingSpace(space);
+    setWorkingSpace(space);
+  };
+
+  const handleCustomCatalogChange = (items: CatalogItem[]) => {
+    // Like the working space, the engine reads the catalog at call time
+    setEngineCustomCatalog(items);
+    setCustomCatalog(items);
+  };
+
+  // Reverse mode in the Room tab pins the palette it designed
+  const handlePinPalette = (
+    colors: chroma.Color[],
+    gamut: (GamutAdjustment | null)[],
+    recipe: PaletteRecipe
+  ) => {
+    setSuggestions((prev) => [...prev, { colors, gamut, recipe, pinned: true }]);
+    requestAnimationFrame(save);
+  };
+
   const pinnedSuggestions = suggestions.filter((s) => s.pinned);
 
   return (
@@ -57,6 +105,20 @@ export default function App() {
         <p className="app-subtitle">
           Create a personal color palette, plan your rooms, build your wardrobe.
         </p>
+        <label className="working-space">
+          Color math in
+          <select
+            value={workingSpace}
+            onChange={(e) => handleWorkingSpaceChange(e.target.value as WorkingSpace)}
+            title="Color space used for palette generation, hue families and harmony scores"
+          >
+            {WORKING_SPACES.map((space) => (
+              <option key={space} value={space}>
+                {WORKING_SPACE_LABELS[space]}
+              </option>
+            ))}
+          </select>
+        </label>
       </header>
 
       <nav className="tab-bar">
@@ -98,12 +160,20 @@ export default function App() {
             ref={roomRef}
             pinnedSuggestions={pinnedSuggestions}
             baseColors={baseColors}
+            workingSpace={workingSpace}
+            customCatalog={customCatalog}
+            onCustomCatalogChange={handleCustomCatalogChange}
+            onPinPalette={handlePinPalette}
             savedState={saved}
             onStateChange={save}
           />
         </div>
         <div className={activeTab === "wardrobe" ? "tab-panel-active" : "tab-panel-hidden"}>
-          <WardrobeTab pinnedSuggestions={pinnedSuggestions} baseColors={baseColors} />
+          <WardrobeTab
+            pinnedSuggestions={pinnedSuggestions}
+            baseColors={baseColors}
+            workingSpace={workingSpace}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import {
+  ANCHOR_POLICY_LABELS,
+  ANCHOR_POLICY_DESCRIPTIONS,
+} from "../engine/anchors";
+import type { AnchorPolicy, AnchorSettings } from "../engine/anchors";
+import { parseColor, splitColorList } from "../engine/parser";
+
+interface AnchorPolicySelectProps {
+  id: string;
+  settings: AnchorSettings;
+  onChange: (settings: AnchorSettings) => void;
+}
+
+const POLICIES = Object.keys(ANCHOR_POLICY_LABELS) as AnchorPolicy[];
+
+/**
+ * Anchor policy picker for a tab. With the custom policy, a text field
+ * takes the anchor colors in any format parseColor understands.
+ */
+export function AnchorPolicySelect({ id, settings, onChange }: AnchorPolicySelectProps) {
+  const [customText, setCustomText] = useState(settings.custom.join(", "));
+
+  const commitCustom = () => {
+    const custom = splitColorList(customText)
+      .map((t) => parseColor(t))
+      .filter((c) => c !== null)
+      .map((c) => c.hex());
+    onChange({ ...settings, custom });
+  };
+
+  return (
+    <div className="control-group">
+      <label className="control-label" htmlFor={id}>
+        Anchors
+      </label>
+      <select
+        id={id}
+        className="control-select"
+        value={settings.policy}
+        onChange={(e) => onChange({ ...settings, policy: e.target.value as AnchorPolicy })}
+        title={ANCHOR_POLICY_DESCRIPTIONS[settings.policy]}
+      >
+        {POLICIES.map((p) => (
+          <option key={p} value={p}>
+            {ANCHOR_POLICY_LABELS[p]}
+          </option>
+        ))}
+      </select>
+      {settings.policy === "custom" && (
+        <input
+          className="anchor-custom-input"
+          placeholder="#1F2A44, #F5F0E8"
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+          onBlur={commitCustom}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitCustom();
+          }}
+          spellCheck={false}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import {
+  CATEGORY_LABELS,
+  ROLE_LABELS,
+  getCatalogItem,
+  isBuiltInItem,
+  normalizeCatalogItem,
+  upsertCustomItem,
+} from "../engine/itemCatalog";
+import type { CatalogItem, ItemCategory, ItemRole } from "../engine/itemCatalog";
+
+interface CatalogEditorProps {
+  items: CatalogItem[];
+  onChange: (items: CatalogItem[]) => void;
+}
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as ItemCategory[];
+const ROLES = Object.keys(ROLE_LABELS) as ItemRole[];
+
+const EMPTY_DRAFT: CatalogItem = {
+  name: "",
+  weight: 3,
+  category: "furniture",
+  lightnessRange: [20, 90],
+  role: "anchor",
+};
+
+/**
+ * Define items the built-in catalog doesn't know ("Piano", "Kitchen
+ * Island"), or override a built-in item's weight, role, category and
+ * lightness range. Typing a known name starts from its current values.
+ */
+export function CatalogEditor({ items, onChange }: CatalogEditorProps) {
+  const [draft, setDraft] = useState<CatalogItem>(EMPTY_DRAFT);
+
+  const handleNameChange = (name: string) => {
+    const known = getCatalogItem(name);
+    setDraft(known ? { ...known, name } : { ...draft, name });
+  };
+
+  const handleSave = () => {
+    const item = normalizeCatalogItem(draft);
+    if (!item) return;
+    onChange(upsertCustomItem(items, item));
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const [minL, maxL] = draft.lightnessRange;
+
+  return (
+    <div className="catalog-editor">
+      <p className="csv-hint">
+        Custom items appear in the picker and steer auto-fill like built-in
+        ones. Use a built-in name to override it.
+      </p>
+
+      {items.length > 0 && (
+        <ul className="catalog-editor-list">
+          {items.map((item) => (
+            <li key={item.name}>
+              <button
+                className="item-catalog-btn"
+                onClick={() => setDraft(item)}
+                title="Edit this item"
+              >
+                {item.name}
+              </button>
+              <span className="catalog-editor-meta">
+                {CATEGORY_LABELS[item.category]} · {ROLE_LABELS[item.role]} · weight {item.weight} ·
+                L{item.lightnessRange[0]}–{item.lightnessRange[1]}
+                {isBuiltInItem(item.name) && " · overrides built-in"}
+              </span>
+              <button
+                className="btn-dismiss"
+                onClick={() => onChange(items.filter((i) => i !== item))}
+                title="Remove custom item"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="catalog-editor-form">
+        <input
+          type="text"
+          className="room-item-name home-room-name"
+          value={draft.name}
+          onChange={(e) => handleNameChange(e.target.value)}
+          placeholder="Item name"
+          aria-label="Item name"
+          spellCheck={false}
+        />
+        <select
+          className="tendency-select"
+          value={draft.category}
+          onChange={(e) => setDraft({ ...draft, category: e.target.value as ItemCategory })}
+          aria-label="Category"
+        >
+          {CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {CATEGORY_LABELS[c]}
+            </option>
+          ))}
+        </select>
+        <select
+          className="tendency-select"
+          value={draft.role}
+          onChange={(e) => setDraft({ ...draft, role: e.target.value as ItemRole })}
+          aria-label="Role"
+          title="Background recedes, ground anchors low, accent makes the statement, neutral blends"
+        >
+          {ROLES.map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+        <label className="catalog-editor-field">
+          Weight
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={draft.weight}
+            onChange={(e) => setDraft({ ...draft, weight: Number(e.target.value) })}
+          />
+        </label>
+        <label className="catalog-editor-field">
+          Lightness
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={minL}
+            onChange={(e) => setDraft({ ...draft, lightnessRange: [Number(e.target.value), maxL] })}
+            aria-label="Minimum lightness"
+          />
+          –
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={maxL}
+            onChange={(e) => setDraft({ ...draft, lightnessRange: [minL, Number(e.target.value)] })}
+            aria-label="Maximum lightness"
+          />
+        </label>
+        <button className="btn-alternative" onClick={handleSave} disabled={!draft.name.trim()}>
+          Save Item
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import chroma from "chroma-js";
-import { parseColor, toHex, toLab } from "../engine/parser";
+import { parseColor, parseColorDetailed, toHex, toLab, COLOR_FORMAT_LABELS } from "../engine/parser";
+import type { ColorParseResult } from "../engine/parser";
 
 interface ColorInputProps {
   color: chroma.Color | null;
@@ -19,6 +20,9 @@ export function ColorInput({
 }: ColorInputProps) {
   const [inputValue, setInputValue] = useState(color ? toHex(color) : "");
   const [isValid, setIsValid] = useState(color !== null);
+  // Last typed value's parse result, for the format note and error
+  // tooltip. The note only shows while `color` is still the typed one.
+  const [typed, setTyped] = useState<ColorParseResult | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -30,16 +34,18 @@ export function ColorInput({
 
   const handleChange = (value: string) => {
     setInputValue(value);
-    const parsed = parseColor(value);
-    setIsValid(parsed !== null || value === "");
-    if (parsed) {
-      onColorChange(parsed);
+    const result = parseColorDetailed(value);
+    setTyped(value.trim() ? result : null);
+    setIsValid(result.ok || value === "");
+    if (result.ok) {
+      onColorChange(result.color);
     }
   };
 
   const handleNativeColorChange = (hex: string) => {
     setInputValue(hex);
     const parsed = parseColor(hex);
+    setTyped(null);
     setIsValid(true);
     if (parsed) {
       onColorChange(parsed);
@@ -79,7 +85,8 @@ export function ColorInput({
             className={`color-text-input ${!isValid && inputValue ? "invalid" : ""}`}
             value={inputValue}
             onChange={(e) => handleChange(e.target.value)}
-            placeholder="#hex, lab(L,a,b), or name"
+            placeholder="#hex, oklch(), lab(L,a,b), or name"
+            title={typed && !typed.ok ? typed.error : undefined}
             spellCheck={false}
           />
           <input
@@ -92,7 +99,18 @@ export function ColorInput({
         </div>
 
         {color && (
-          <span className="color-lab-value">LAB: {toLab(color)}</span>
+          <span className="color-lab-value">
+            LAB: {toLab(color)}
+            {typed?.ok && typed.color === color && typed.format !== "hex" && (
+              <span
+                className="color-format-note"
+                title={typed.gamutMapped ? "Outside sRGB: chroma was reduced to fit" : undefined}
+              >
+                {" "}· from {COLOR_FORMAT_LABELS[typed.format]}
+                {typed.gamutMapped && " ◐"}
+              </span>
+            )}
+          </span>
         )}
       </div>
 
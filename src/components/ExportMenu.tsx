@@ -0,0 +1,141 @@
+import { writeSwatchFile, SWATCH_FILE_LABELS, SWATCH_FILE_MIME } from "../engine/swatchFiles";
+import type { NamedSwatch, SwatchFileFormat } from "../engine/swatchFiles";
+import {
+  buildTokens,
+  exportTokens,
+  tokenSlug,
+  TOKEN_FORMAT_LABELS,
+  TOKEN_FILE_NAMES,
+  TOKEN_MIME,
+} from "../engine/tokenExport";
+import type { TokenFormat } from "../engine/tokenExport";
+import { renderSwatchCard, SWATCH_CARD_LAYOUT_LABELS } from "../engine/swatchCard";
+import type { SwatchCard, SwatchCardLayout } from "../engine/swatchCard";
+
+interface ExportMenuProps {
+  /** Palette title, also used for the file name */
+  title: string;
+  /** Weight (surface area) sizes each color in proportion-bar cards */
+  swatches: (NamedSwatch & { weight?: number })[];
+  /** Name design tokens by position (color-1, …) instead of swatch name */
+  positional?: boolean;
+}
+
+const SWATCH_FORMATS = Object.keys(SWATCH_FILE_LABELS) as SwatchFileFormat[];
+const TOKEN_FORMATS = Object.keys(TOKEN_FORMAT_LABELS) as TokenFormat[];
+const CARD_LAYOUTS = Object.keys(SWATCH_CARD_LAYOUT_LABELS) as SwatchCardLayout[];
+
+function downloadFile(fileName: string, data: Uint8Array | string | Blob, mime: string) {
+  const blob = data instanceof Blob ? data : new Blob([data as BlobPart], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Rasterize an SVG card at 2× through an offscreen canvas */
+function rasterizeCard(card: SwatchCard): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([card.svg], { type: "image/svg+xml" }));
+    image.onload = () => {
+      const scale = 2;
+      const canvas = document.createElement("canvas");
+      canvas.width = card.width * scale;
+      canvas.height = card.height * scale;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, card.width, card.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode PNG"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the swatch card"));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Compact export picker: choosing a swatch file, design-token format or
+ * swatch card image downloads the colors in that format straight away.
+ */
+export function ExportMenu({ title, swatches, positional = false }: ExportMenuProps) {
+  const slug = tokenSlug(title, "palette");
+
+  const handleExport = async (choice: string) => {
+    const [kind, format] = choice.split(":");
+    if (kind === "swatch") {
+      const f = format as SwatchFileFormat;
+      downloadFile(`${slug}.${f}`, writeSwatchFile(f, title, swatches), SWATCH_FILE_MIME[f]);
+    } else if (kind === "tokens") {
+      const f = format as TokenFormat;
+      const tokens = buildTokens(swatches, positional);
+      downloadFile(`${slug}-${TOKEN_FILE_NAMES[f]}`, exportTokens(f, title, tokens), TOKEN_MIME[f]);
+    } else {
+      const [layout, type] = format.split("-") as [SwatchCardLayout, "svg" | "png"];
+      const card = renderSwatchCard(
+        title,
+        swatches.map((s) => ({ label: s.name, color: s.color, weight: s.weight })),
+        layout
+      );
+      const fileName = `${slug}-${layout}`;
+      if (type === "png") {
+        try {
+          downloadFile(`${fileName}.png`, await rasterizeCard(card), "image/png");
+          return;
+        } catch {
+          // Fall through to the SVG, which every browser can save
+        }
+      }
+      downloadFile(`${fileName}.svg`, card.svg, "image/svg+xml");
+    }
+  };
+
+  return (
+    <select
+      className="export-select"
+      value=""
+      disabled={swatches.length === 0}
+      onChange={(e) => {
+        if (e.target.value) handleExport(e.target.value);
+      }}
+      title="Download these colors as a swatch file, design tokens or an image"
+    >
+      <option value="" disabled>
+        Export…
+      </option>
+      <optgroup label="Swatch file">
+        {SWATCH_FORMATS.map((f) => (
+          <option key={f} value={`swatch:${f}`}>
+            {SWATCH_FILE_LABELS[f]}
+          </option>
+        ))}
+      </optgroup>
+      <optgroup label="Design tokens">
+        {TOKEN_FORMATS.map((f) => (
+          <option key={f} value={`tokens:${f}`}>
+            {TOKEN_FORMAT_LABELS[f]}
+          </option>
+        ))}
+      </optgroup>
+      <optgroup label="Swatch card image">
+        {CARD_LAYOUTS.flatMap((layout) =>
+          (["svg", "png"] as const).map((type) => (
+            <option key={`${layout}-${type}`} value={`card:${layout}-${type}`}>
+              {SWATCH_CARD_LAYOUT_LABELS[layout]} ({type.toUpperCase()})
+            </option>
+          ))
+        )}
+      </optgroup>
+    </select>
+  );
+}
@@ -0,0 +1,116 @@
+import { fromLCH } from "../engine/colorSpace";
+import type { HarmonyBreakdown } from "../engine/roomAssigner";
+
+interface HarmonyBreakdownPanelProps {
+  breakdown: HarmonyBreakdown;
+  /** Item names in the same order as the colors that were scored */
+  itemNames: string[];
+}
+
+/**
+ * Collapsible "why this score" panel shown under a harmony score bar.
+ * Lists each weighted sub-score, the hue families colors were measured
+ * against, the tonal gaps that cost points and the items whose hue
+ * falls outside every palette family.
+ */
+export function HarmonyBreakdownPanel({ breakdown, itemNames }: HarmonyBreakdownPanelProps) {
+  const outliers = breakdown.outliers.map((i) => ({
+    name: itemNames[i] ?? `Color ${i + 1}`,
+    distance: breakdown.items[i].distance ?? 0,
+  }));
+
+  return (
+    <details className="harmony-breakdown">
+      <summary className="harmony-breakdown-summary">
+        Why {breakdown.score}?
+      </summary>
+
+      <div className="harmony-breakdown-body">
+        <div className="harmony-breakdown-components">
+          {breakdown.components.map((c) => (
+            <div key={c.key} className="harmony-component">
+              <span className="harmony-component-label">{c.label}</span>
+              <div className="harmony-component-track">
+                <div
+                  className="harmony-component-fill"
+                  style={{ width: `${c.score}%` }}
+                />
+              </div>
+              <span
+                className="harmony-component-value"
+                title={`${Math.round(c.score)} × ${c.weight.toFixed(2)} weight`}
+              >
+                {Math.round(c.score)} × {c.weight.toFixed(2)} = {c.contribution.toFixed(1)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {breakdown.clusters.length > 0 && (
+          <div className="harmony-breakdown-row">
+            <span className="harmony-breakdown-heading">
+              {breakdown.clusterSource === "palette" ? "Palette hue families" : "Room hue families"}
+            </span>
+            <div className="harmony-cluster-chips">
+              {breakdown.clusters.map((cluster, i) => (
+                <span
+                  key={i}
+                  className="harmony-cluster-chip"
+                  style={{ backgroundColor: fromLCH(65, 40, cluster.center, breakdown.space).hex() }}
+                  title={`${Math.round(cluster.center)}° (${cluster.hues.length} color${cluster.hues.length > 1 ? "s" : ""})`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {outliers.length > 0 && (
+          <div className="harmony-breakdown-row">
+            <span className="harmony-breakdown-heading">Outside every hue family</span>
+            <span className="harmony-breakdown-text">
+              {outliers.map((o) => `${o.name} (${Math.round(o.distance)}° off)`).join(", ")}
+            </span>
+          </div>
+        )}
+
+        {breakdown.gaps.length > 0 && (
+          <div className="harmony-breakdown-row">
+            <span className="harmony-breakdown-heading">Tonal gaps</span>
+            <span className="harmony-breakdown-text">
+              {breakdown.gaps
+                .map((g) => `L${Math.round(g.from)}–L${Math.round(g.to)} (−${g.penalty.toFixed(1)})`)
+                .join(", ")}
+            </span>
+          </div>
+        )}
+
+        {breakdown.flatPenalty > 0 && (
+          <div className="harmony-breakdown-row">
+            <span className="harmony-breakdown-heading">Flat lightness</span>
+            <span className="harmony-breakdown-text">
+              Too little light-to-dark range (−{breakdown.flatPenalty.toFixed(1)})
+            </span>
+          </div>
+        )}
+
+        {breakdown.spacingPenalty > 1 && (
+          <div className="harmony-breakdown-row">
+            <span className="harmony-breakdown-heading">Uneven spacing</span>
+            <span className="harmony-breakdown-text">
+              Lightness steps bunch up and leave voids (−{breakdown.spacingPenalty.toFixed(1)})
+            </span>
+          </div>
+        )}
+
+        {breakdown.chromaStdDev > 5 && (
+          <div className="harmony-breakdown-row">
+            <span className="harmony-breakdown-heading">Saturation spread</span>
+            <span className="harmony-breakdown-text">
+              Chroma varies by ±{breakdown.chromaStdDev.toFixed(1)} across items
+            </span>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -1,23 +1,49 @@
-import type { HarmonyMode } from "../engine/harmonies";
-import { HARMONY_LABELS } from "../engine/harmonies";
+import type {
+  HarmonyMode,
+  GenerationConstraints,
+  HueRange,
+  TemperatureBias,
+} from "../engine/harmonies";
+import {
+  HARMONY_LABELS,
+  TEMPERATURE_BIAS_LABELS,
+  HUE_FAMILIES,
+  DEFAULT_CONSTRAINTS,
+  isDefaultConstraints,
+} from "../engine/harmonies";
+import { fromLCH } from "../engine/colorSpace";
 
 interface HarmonySelectorProps {
   mode: HarmonyMode;
   count: number;
   suggestions: number;
+  constraints: GenerationConstraints;
   onModeChange: (mode: HarmonyMode) => void;
   onCountChange: (count: number) => void;
   onSuggestionsChange: (count: number) => void;
+  onConstraintsChange: (constraints: GenerationConstraints) => void;
   onGenerate: () => void;
 }
 
 const MODES = Object.keys(HARMONY_LABELS) as HarmonyMode[];
 
+const BIASES = Object.keys(TEMPERATURE_BIAS_LABELS) as TemperatureBias[];
+
+/** Keep the lightness sliders at least this far apart */
+const MIN_L_SPAN = 10;
+
+function sameRange(a: HueRange, b: HueRange): boolean {
+  return a.from === b.from && a.to === b.to;
+}
+
 const MODE_DESCRIPTIONS: Record<HarmonyMode, string> = {
   complementary: "Opposite colors for contrast",
   analogous: "Nearby colors for cohesion",
   triadic: "Three evenly spaced hues",
   "split-complementary": "Contrast with nuance",
+  tetradic: "Two complementary pairs in a rectangle",
+  square: "Four hues evenly spaced",
+  monochromatic: "One hue in tints, tones and shades",
   "delta-e-smart": "Perceptually balanced",
 };
 
@@ -25,11 +51,25 @@ export function HarmonySelector({
   mode,
   count,
   suggestions,
+  constraints,
   onModeChange,
   onCountChange,
   onSuggestionsChange,
+  onConstraintsChange,
   onGenerate,
 }: HarmonySelectorProps) {
+  const update = (patch: Partial<GenerationConstraints>) =>
+    onConstraintsChange({ ...constraints, ...patch });
+
+  const toggleHue = (range: HueRange) => {
+    const excluded = constraints.excludedHues.some((r) => sameRange(r, range));
+    update({
+      excludedHues: excluded
+        ? constraints.excludedHues.filter((r) => !sameRange(r, range))
+        : [...constraints.excludedHues, range],
+    });
+  };
+
   return (
     <div className="controls-bar">
       <div className="control-group">
@@ -84,6 +124,120 @@ export function HarmonySelector({
       <button className="btn-generate" onClick={onGenerate}>
         Generate
       </button>
+
+      <details className="constraints-panel">
+        <summary className="constraints-summary">
+          Constraints
+          {!isDefaultConstraints(constraints) && (
+            <span className="constraints-active">active</span>
+          )}
+        </summary>
+
+        <div className="constraints-body">
+          <div className="control-group">
+            <label className="control-label" htmlFor="constraint-min-l">
+              Lightness from: {constraints.minL}
+            </label>
+            <input
+              id="constraint-min-l"
+              type="range"
+              className="control-slider"
+              min={0}
+              max={100 - MIN_L_SPAN}
+              value={constraints.minL}
+              onChange={(e) => {
+                const minL = Number(e.target.value);
+                update({ minL, maxL: Math.max(constraints.maxL, minL + MIN_L_SPAN) });
+              }}
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-label" htmlFor="constraint-max-l">
+              Lightness to: {constraints.maxL}
+            </label>
+            <input
+              id="constraint-max-l"
+              type="range"
+              className="control-slider"
+              min={MIN_L_SPAN}
+              max={100}
+              value={constraints.maxL}
+              onChange={(e) => {
+                const maxL = Number(e.target.value);
+                update({ maxL, minL: Math.min(constraints.minL, maxL - MIN_L_SPAN) });
+              }}
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-label" htmlFor="constraint-max-c">
+              Chroma ceiling: {constraints.maxChroma}
+            </label>
+            <input
+              id="constraint-max-c"
+              type="range"
+              className="control-slider"
+              min={5}
+              max={100}
+              step={5}
+              value={constraints.maxChroma}
+              onChange={(e) => update({ maxChroma: Number(e.target.value) })}
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-label" htmlFor="constraint-bias">
+              Temperature
+            </label>
+            <select
+              id="constraint-bias"
+              className="control-select"
+              value={constraints.bias}
+              onChange={(e) => update({ bias: e.target.value as TemperatureBias })}
+            >
+              {BIASES.map((b) => (
+                <option key={b} value={b}>
+                  {TEMPERATURE_BIAS_LABELS[b]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="control-group constraints-hues">
+            <span className="control-label">Avoid hues</span>
+            <div className="hue-family-toggles">
+              {HUE_FAMILIES.map(({ label, range }) => {
+                const excluded = constraints.excludedHues.some((r) => sameRange(r, range));
+                const mid = (range.from + ((range.to - range.from + 360) % 360) / 2) % 360;
+                return (
+                  <button
+                    key={label}
+                    className={`hue-family-toggle ${excluded ? "excluded" : ""}`}
+                    onClick={() => toggleHue(range)}
+                    title={excluded ? `Allow ${label.toLowerCase()}` : `Avoid ${label.toLowerCase()}`}
+                  >
+                    <span
+                      className="hue-family-dot"
+                      style={{ backgroundColor: fromLCH(60, 45, mid, "lab").hex() }}
+                    />
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {!isDefaultConstraints(constraints) && (
+            <button
+              className="btn-clear"
+              onClick={() => onConstraintsChange(DEFAULT_CONSTRAINTS)}
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </details>
     </div>
   );
 }
@@ -0,0 +1,152 @@
+import type { Home, HomeCohesion } from "../engine/home";
+import { areAdjacent, repeatedItemNames, isSharedItem } from "../engine/home";
+
+interface HomeRoomsProps {
+  home: Home;
+  activeRoomId: number;
+  cohesion: HomeCohesion;
+  onSelect: (roomId: number) => void;
+  onAdd: () => void;
+  onRemove: (roomId: number) => void;
+  onRename: (roomId: number, name: string) => void;
+  onToggleAdjacency: (a: number, b: number) => void;
+  onToggleShared: (name: string) => void;
+}
+
+/**
+ * Room switcher for a whole home: pick the room being planned, say
+ * which rooms it opens onto, link items that continue between rooms,
+ * and see how the home holds together.
+ */
+export function HomeRooms({
+  home,
+  activeRoomId,
+  cohesion,
+  onSelect,
+  onAdd,
+  onRemove,
+  onRename,
+  onToggleAdjacency,
+  onToggleShared,
+}: HomeRoomsProps) {
+  const active = home.rooms.find((r) => r.id === activeRoomId);
+  const others = home.rooms.filter((r) => r.id !== activeRoomId);
+  const nameOf = (id: number) => home.rooms.find((r) => r.id === id)?.name ?? "Room";
+
+  // Linked names first, then anything repeated that could be linked
+  const linkable = [
+    ...home.shared,
+    ...repeatedItemNames(home).filter((name) => !isSharedItem(home, name)),
+  ];
+
+  const scoredRooms = cohesion.rooms.filter((r) => r.score !== null);
+
+  return (
+    <section className="home-rooms">
+      <div className="home-room-tabs">
+        {home.rooms.map((room) => (
+          <button
+            key={room.id}
+            className={`btn-alternative ${room.id === activeRoomId ? "active" : ""}`}
+            onClick={() => onSelect(room.id)}
+          >
+            {room.name || "Untitled"}
+          </button>
+        ))}
+        <button className="btn-add" onClick={onAdd}>
+          + Room
+        </button>
+      </div>
+
+      {active && (
+        <div className="home-room-details">
+          <input
+            type="text"
+            className="room-item-name home-room-name"
+            value={active.name}
+            onChange={(e) => onRename(active.id, e.target.value)}
+            placeholder="Room name"
+            spellCheck={false}
+            aria-label="Room name"
+          />
+          {others.length > 0 && (
+            <div className="home-adjacency">
+              <span className="fill-alternatives-label">Opens onto</span>
+              {others.map((room) => (
+                <label key={room.id} className="ramp-toggle">
+                  <input
+                    type="checkbox"
+                    checked={areAdjacent(home, active.id, room.id)}
+                    onChange={() => onToggleAdjacency(active.id, room.id)}
+                  />
+                  {room.name || "Untitled"}
+                </label>
+              ))}
+            </div>
+          )}
+          {others.length > 0 && (
+            <button className="btn-clear" onClick={() => onRemove(active.id)}>
+              Remove Room
+            </button>
+          )}
+        </div>
+      )}
+
+      {home.rooms.length > 1 && (
+        <details className="csv-details">
+          <summary className="csv-summary">Shared items</summary>
+          <div className="csv-section">
+            <p className="csv-hint">
+              Linked items keep one color throughout the home. Coloring one
+              room's Floors colors the Floors in every room, and auto-fill
+              leaves linked items alone once another room has colored them.
+            </p>
+            <div className="home-shared-list">
+              {linkable.map((name) => (
+                <label key={name} className="ramp-toggle">
+                  <input
+                    type="checkbox"
+                    checked={isSharedItem(home, name)}
+                    onChange={() => onToggleShared(name)}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </details>
+      )}
+
+      {home.rooms.length > 1 && cohesion.score !== null && (
+        <div className="home-cohesion">
+          <div className="harmony-score-bar">
+            <div className="harmony-score-label">Home Cohesion</div>
+            <div className="harmony-score-track">
+              <div className="harmony-score-fill" style={{ width: `${cohesion.score}%` }} />
+            </div>
+            <div className="harmony-score-value">{cohesion.score}</div>
+          </div>
+          <ul className="home-cohesion-list">
+            {scoredRooms.map((r) => (
+              <li key={r.roomId}>
+                <span>{r.name || "Untitled"}</span>
+                <strong>{r.score}</strong>
+              </li>
+            ))}
+            {cohesion.transitions.map((t) => (
+              <li key={`${t.from}-${t.to}`} className="home-transition">
+                <span>
+                  {nameOf(t.from)} ↔ {nameOf(t.to)}
+                  {t.continuing.length > 0 && (
+                    <small> · {t.continuing.join(", ")} carry through</small>
+                  )}
+                </span>
+                <strong>{t.score ?? "—"}</strong>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
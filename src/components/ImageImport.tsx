@@ -0,0 +1,125 @@
+import { useState, useMemo } from "react";
+import chroma from "chroma-js";
+import { extractPalette } from "../engine/imageExtract";
+import { toHex } from "../engine/parser";
+
+interface ImageImportProps {
+  onImport: (colors: chroma.Color[]) => void;
+}
+
+/** Images are scaled down to this many pixels on the long side */
+const MAX_SIDE = 256;
+
+/**
+ * Decode a local image file and return its RGBA pixels, downscaled.
+ * Runs entirely in the browser: the file is read through an object URL
+ * and never leaves the device.
+ */
+async function readImagePixels(file: File): Promise<Uint8ClampedArray> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * "From image" importer: pick a photo, preview its dominant colors and
+ * add them as locked base colors.
+ */
+export function ImageImport({ onImport }: ImageImportProps) {
+  const [pixels, setPixels] = useState<Uint8ClampedArray | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [count, setCount] = useState(5);
+  const [error, setError] = useState("");
+
+  const extracted = useMemo(
+    () => (pixels ? extractPalette(pixels, count) : []),
+    [pixels, count]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError("");
+    try {
+      setPixels(await readImagePixels(file));
+      setFileName(file.name);
+    } catch {
+      setPixels(null);
+      setFileName("");
+      setError(`Could not read ${file.name} as an image.`);
+    }
+  };
+
+  return (
+    <div className="image-import">
+      <p className="csv-hint">
+        Pick a photo of a rug, painting or fabric swatch. Its dominant colors
+        are found on your device — the image is never uploaded.
+      </p>
+      <div className="image-import-controls">
+        <input
+          type="file"
+          accept="image/*"
+          className="image-import-file"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <div className="control-group">
+          <label className="control-label" htmlFor="image-color-count">
+            Colors to extract: {count}
+          </label>
+          <input
+            id="image-color-count"
+            type="range"
+            className="control-slider"
+            min={2}
+            max={10}
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      {extracted.length > 0 && (
+        <div className="image-import-preview">
+          <div className="image-import-swatches" title={fileName}>
+            {extracted.map((e, i) => (
+              <div
+                key={i}
+                className="image-import-swatch"
+                style={{ backgroundColor: toHex(e.color), flexGrow: e.share }}
+                title={`${toHex(e.color)} · ${Math.round(e.share * 100)}% of the image`}
+              />
+            ))}
+          </div>
+          <button
+            className="btn-import"
+            onClick={() => onImport(extracted.map((e) => e.color))}
+          >
+            Add as base colors
+          </button>
+        </div>
+      )}
+
+      {error && <p className="csv-error">{error}</p>}
+    </div>
+  );
+}
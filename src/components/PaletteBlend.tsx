@@ -0,0 +1,123 @@
+import { useState, useMemo } from "react";
+import chroma from "chroma-js";
+import { morphPalettes, evenRatios } from "../engine/morph";
+import type { MorphedPalette } from "../engine/morph";
+import { toHex } from "../engine/parser";
+
+interface BlendSource {
+  label: string;
+  colors: chroma.Color[];
+}
+
+interface PaletteBlendProps {
+  /** Pinned palettes to blend between */
+  sources: BlendSource[];
+  onBlend: (palettes: MorphedPalette[]) => void;
+}
+
+/**
+ * "Blend pinned palettes": pick two pinned palettes and how many steps
+ * to put between them, preview the in-between palettes and add them as
+ * new suggestions.
+ */
+export function PaletteBlend({ sources, onBlend }: PaletteBlendProps) {
+  const [fromIdx, setFromIdx] = useState(0);
+  const [toIdx, setToIdx] = useState(1);
+  const [steps, setSteps] = useState(3);
+
+  // Pinning and unpinning can shrink the list under the selection
+  const fromPos = Math.min(fromIdx, sources.length - 1);
+  const toPos = Math.min(toIdx, sources.length - 1);
+  const sameSource = fromPos === toPos;
+  const fromColors = sources[fromPos].colors;
+  const toColors = sources[toPos].colors;
+
+  const blends = useMemo(
+    () => (sameSource ? [] : morphPalettes(fromColors, toColors, evenRatios(steps))),
+    [fromColors, toColors, steps, sameSource]
+  );
+
+  return (
+    <div className="palette-blend">
+      <p className="csv-hint">
+        Colors are paired across the two palettes by closest match, then
+        mixed in the working space.
+      </p>
+      <div className="palette-blend-controls">
+        <div className="control-group">
+          <label className="control-label" htmlFor="blend-from">
+            From
+          </label>
+          <select
+            id="blend-from"
+            className="control-select"
+            value={fromPos}
+            onChange={(e) => setFromIdx(Number(e.target.value))}
+          >
+            {sources.map((s, i) => (
+              <option key={i} value={i}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label className="control-label" htmlFor="blend-to">
+            To
+          </label>
+          <select
+            id="blend-to"
+            className="control-select"
+            value={toPos}
+            onChange={(e) => setToIdx(Number(e.target.value))}
+          >
+            {sources.map((s, i) => (
+              <option key={i} value={i}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label className="control-label" htmlFor="blend-steps">
+            Steps in between: {steps}
+          </label>
+          <input
+            id="blend-steps"
+            type="range"
+            className="control-slider"
+            min={1}
+            max={5}
+            value={steps}
+            onChange={(e) => setSteps(Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      {sameSource ? (
+        <p className="csv-error">Pick two different palettes.</p>
+      ) : (
+        <div className="palette-blend-preview">
+          {blends.map((blend) => (
+            <div key={blend.ratio} className="palette-blend-row">
+              <span className="palette-blend-ratio">{Math.round(blend.ratio * 100)}%</span>
+              <div className="palette-blend-swatches">
+                {blend.colors.map((c, i) => (
+                  <div
+                    key={i}
+                    className="palette-blend-swatch"
+                    style={{ backgroundColor: toHex(c) }}
+                    title={toHex(c).toUpperCase()}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          <button className="btn-import" onClick={() => onBlend(blends)}>
+            Add {blends.length} as suggestions
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,25 @@ import { useState, useCallback, useEffect, useImperativeHandle, forwardRef } fro
 import chroma from "chroma-js";
 import { ColorInput } from "./ColorInput";
 import { HarmonySelector } from "./HarmonySelector";
+import { ImageImport } from "./ImageImport";
+import { AnchorPolicySelect } from "./AnchorPolicySelect";
+import { PaletteBlend } from "./PaletteBlend";
+import { SwatchFileImport } from "./SwatchFileImport";
+import { ExportMenu } from "./ExportMenu";
 import { SwatchStrip } from "./SwatchStrip";
 import type { SwatchItem } from "./SwatchStrip";
-import { generateMultiplePalettes } from "../engine/harmonies";
-import type { HarmonyMode } from "../engine/harmonies";
-import { parseColor } from "../engine/parser";
+import { DEFAULT_CONSTRAINTS } from "../engine/harmonies";
+import type { HarmonyMode, GenerationConstraints } from "../engine/harmonies";
+import type { GamutAdjustment } from "../engine/gamut";
+import { encodeRecipe, decodeRecipe, regenerateFromRecipe } from "../engine/recipe";
+import type { PaletteRecipe } from "../engine/recipe";
+import { getWorkingSpace } from "../engine/colorSpace";
+import { generateRankedPalettes, computePaletteQuality, LIGHTNESS_BANDS } from "../engine/paletteQuality";
+import type { PaletteQuality } from "../engine/paletteQuality";
+import type { MorphedPalette } from "../engine/morph";
+import { applyAnchors } from "../engine/anchors";
+import type { AnchorSettings } from "../engine/anchors";
+import { parseColorDetailed, splitColorList, toHex } from "../engine/parser";
 import {
   serializeEntries,
   serializeSuggestions,
@@ -17,6 +31,12 @@ import type { AppState } from "../engine/persistence";
 export interface Suggestion {
   colors: chroma.Color[];
   pinned: boolean;
+  /** Gamut mapping per color, aligned with `colors` */
+  gamut?: (GamutAdjustment | null)[];
+  /** Inputs that regenerate exactly these colors */
+  recipe?: PaletteRecipe;
+  /** Share of the second palette, when blended from two pinned ones */
+  blend?: number;
 }
 
 interface PaletteEntry {
@@ -27,6 +47,15 @@ interface PaletteEntry {
 
 let nextId = 1;
 
+function describeQuality(q: PaletteQuality): string {
+  return [
+    `Closest pair ΔE ${q.minDeltaE.toFixed(1)}`,
+    `Lightness bands ${q.bandsCovered}/${LIGHTNESS_BANDS.length}`,
+    `Neutrals ${Math.round(q.neutralShare * 100)}%`,
+    `Anchors: ${q.hasDarkAnchor ? "dark ✓" : "dark ✗"} ${q.hasLightAnchor ? "light ✓" : "light ✗"}`,
+  ].join(" · ");
+}
+
 function createEntry(hex?: string): PaletteEntry {
   return {
     color: hex ? chroma(hex) : null,
@@ -57,6 +86,8 @@ export interface PaletteTabHandle {
     harmonyMode: string;
     colorCount: number;
     suggestionCount: number;
+    constraints: GenerationConstraints;
+    anchors: AnchorSettings;
   };
 }
 
@@ -79,8 +110,19 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
   );
   const [colorCount, setColorCount] = useState(savedState?.colorCount ?? 4);
   const [suggestionCount, setSuggestionCount] = useState(savedState?.suggestionCount ?? 3);
+  const [constraints, setConstraints] = useState<GenerationConstraints>(
+    savedState?.constraints ?? DEFAULT_CONSTRAINTS
+  );
+  const [anchors, setAnchors] = useState<AnchorSettings>(
+    savedState?.paletteAnchors ?? { policy: "interior", custom: [] }
+  );
+  const [showRamps, setShowRamps] = useState(false);
   const [csvValue, setCsvValue] = useState("");
   const [csvError, setCsvError] = useState("");
+  const [recipeValue, setRecipeValue] = useState("");
+  const [recipeError, setRecipeError] = useState("");
+  const [copiedIdx, setCopiedIdx] = useState<number | null>(null);
+  const [manualCopyIdx, setManualCopyIdx] = useState<number | null>(null);
 
   useImperativeHandle(ref, () => ({
     getState: () => ({
@@ -89,6 +131,8 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
       harmonyMode,
       colorCount,
       suggestionCount,
+      constraints,
+      anchors,
     }),
   }));
 
@@ -165,27 +209,22 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
       return;
     }
 
-    const tokens = raw
-      .split(/[,;\n]+/)
-      .map((t) => t.trim())
-      .filter(Boolean);
+    const tokens = splitColorList(raw);
 
     const parsed: chroma.Color[] = [];
     const failed: string[] = [];
 
     for (const token of tokens) {
-      const color = parseColor(token);
-      if (color) {
-        parsed.push(color);
+      const result = parseColorDetailed(token);
+      if (result.ok) {
+        parsed.push(result.color);
       } else {
-        failed.push(token);
+        failed.push(result.error);
       }
     }
 
     if (parsed.length === 0) {
-      setCsvError(
-        `Could not parse any colors. Failed: ${failed.join(", ")}`
-      );
+      setCsvError(`Could not parse any colors. ${failed.join("; ")}`);
       return;
     }
 
@@ -194,16 +233,24 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
     onSuggestionsChange([]);
     setCsvError(
       failed.length > 0
-        ? `Imported ${parsed.length} colors. Could not parse: ${failed.join(", ")}`
+        ? `Imported ${parsed.length} colors. Skipped: ${failed.join("; ")}`
         : ""
     );
     setCsvValue("");
   };
 
+  /** Imported colors join the base colors as locked entries */
+  const handleAppendColors = (colors: chroma.Color[]) => {
+    updateEntries([...entries, ...colors.map((c) => createEntryFromColor(c))]);
+  };
+
   const handleGenerate = () => {
-    const lockedColors = entries
+    // Generate from the hex values so a recipe, which stores hex,
+    // rebuilds exactly the same palette.
+    const lockedHexes = entries
       .filter((e) => e.locked && e.color !== null)
-      .map((e) => e.color!);
+      .map((e) => e.color!.hex());
+    const lockedColors = lockedHexes.map((hex) => chroma(hex));
 
     const pinned = suggestions.filter((s) => s.pinned);
     const slotsToFill = suggestionCount - pinned.length;
@@ -211,20 +258,34 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
     if (slotsToFill <= 0) return;
 
     const seed = Date.now();
-    const freshPalettes = generateMultiplePalettes(
+    const workingSpace = getWorkingSpace();
+    const freshPalettes = generateRankedPalettes(
       lockedColors,
       harmonyMode,
       colorCount,
       slotsToFill,
-      seed
-    );
+      seed,
+      constraints
+    ).map(({ colors, gamut, variation }) => ({
+      colors,
+      gamut,
+      recipe: {
+        seed,
+        variation,
+        mode: harmonyMode,
+        count: colorCount,
+        locked: lockedHexes,
+        constraints,
+        workingSpace,
+      },
+    }));
 
     let freshIdx = 0;
     let newSuggestions: Suggestion[] = [];
 
     if (suggestions.length === 0) {
-      for (const colors of freshPalettes) {
-        newSuggestions.push({ colors, pinned: false });
+      for (const fresh of freshPalettes) {
+        newSuggestions.push({ ...fresh, pinned: false });
       }
     } else {
       for (const s of suggestions) {
@@ -232,7 +293,7 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
           newSuggestions.push(s);
         } else if (freshIdx < freshPalettes.length) {
           newSuggestions.push({
-            colors: freshPalettes[freshIdx],
+            ...freshPalettes[freshIdx],
             pinned: false,
           });
           freshIdx++;
@@ -240,7 +301,7 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
       }
       while (freshIdx < freshPalettes.length) {
         newSuggestions.push({
-          colors: freshPalettes[freshIdx],
+          ...freshPalettes[freshIdx],
           pinned: false,
         });
         freshIdx++;
@@ -250,6 +311,58 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
     onSuggestionsChange(newSuggestions);
   };
 
+  /**
+   * Rebuild a shared palette: its locked inputs become the base colors,
+   * the generator settings follow the recipe, and the palette is added
+   * next to any pinned suggestions.
+   */
+  const handleRecipeLoad = () => {
+    const recipe = decodeRecipe(recipeValue);
+    if (!recipe) {
+      setRecipeError("That doesn't look like a palette recipe.");
+      return;
+    }
+
+    updateEntries(recipe.locked.map((hex) => createEntry(hex)));
+    setHarmonyMode(recipe.mode);
+    setColorCount(recipe.count);
+    setConstraints(recipe.constraints);
+    onSuggestionsChange([
+      ...suggestions.filter((s) => s.pinned),
+      { ...regenerateFromRecipe(recipe), recipe, pinned: false },
+    ]);
+    setRecipeValue("");
+    setRecipeError("");
+  };
+
+  const handleBlend = (blends: MorphedPalette[]) => {
+    onSuggestionsChange([
+      ...suggestions,
+      ...blends.map(({ colors, gamut, ratio }) => ({
+        colors,
+        gamut,
+        blend: ratio,
+        pinned: false,
+      })),
+    ]);
+  };
+
+  // Without clipboard access the recipe is shown selected for a manual copy
+  const handleCopyRecipe = (idx: number, recipe: PaletteRecipe) => {
+    if (!navigator.clipboard) {
+      setManualCopyIdx(idx);
+      return;
+    }
+    navigator.clipboard.writeText(encodeRecipe(recipe)).then(
+      () => {
+        setManualCopyIdx(null);
+        setCopiedIdx(idx);
+        setTimeout(() => setCopiedIdx((current) => (current === idx ? null : current)), 1500);
+      },
+      () => setManualCopyIdx(idx)
+    );
+  };
+
   const handleTogglePin = (idx: number) => {
     onSuggestionsChange(
       suggestions.map((s, i) =>
@@ -267,6 +380,9 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
     .map((e) => ({ color: e.color!, locked: e.locked }));
 
   const pinnedCount = suggestions.filter((s) => s.pinned).length;
+  const blendSources = suggestions
+    .map((s, i) => ({ label: `Suggestion ${i + 1}`, colors: s.colors, pinned: s.pinned }))
+    .filter((s) => s.pinned);
 
   const hasColors = entries.length > 0;
 
@@ -354,8 +470,9 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
           <summary className="csv-summary">Bulk import colors (CSV)</summary>
           <div className="csv-section">
             <p className="csv-hint">
-              Paste hex codes, LAB values, or color names separated by commas.
-              This replaces all your current colors.
+              Paste hex codes, CSS colors (rgb, hsl, lab, lch, oklab, oklch,
+              color()), LAB values, or color names, separated by commas or
+              new lines. This replaces all your current colors.
             </p>
             <div className="csv-row">
               <textarea
@@ -378,15 +495,63 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
         </details>
       )}
 
+      {/* Recipe import - collapsible, secondary */}
+      <details className="csv-details">
+        <summary className="csv-summary">From recipe</summary>
+        <div className="csv-section">
+          <p className="csv-hint">
+            Paste a recipe copied from a suggestion to rebuild exactly that
+            palette. This replaces your base colors with the recipe's.
+          </p>
+          <div className="csv-row">
+            <input
+              className="csv-input recipe-input"
+              placeholder="cg1.analogous.4.…"
+              value={recipeValue}
+              onChange={(e) => {
+                setRecipeValue(e.target.value);
+                setRecipeError("");
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleRecipeLoad();
+              }}
+              spellCheck={false}
+            />
+            <button className="btn-import recipe-load" onClick={handleRecipeLoad}>
+              Rebuild
+            </button>
+          </div>
+          {recipeError && <p className="csv-error">{recipeError}</p>}
+        </div>
+      </details>
+
+      {/* Image import - collapsible, secondary */}
+      <details className="csv-details">
+        <summary className="csv-summary">From image</summary>
+        <div className="csv-section">
+          <ImageImport onImport={handleAppendColors} />
+        </div>
+      </details>
+
+      {/* Swatch file import - collapsible, secondary */}
+      <details className="csv-details">
+        <summary className="csv-summary">From swatch file</summary>
+        <div className="csv-section">
+          <SwatchFileImport onImport={handleAppendColors} />
+        </div>
+      </details>
+
       {/* Generation controls */}
       {(hasColors || suggestions.length > 0) && (
         <HarmonySelector
           mode={harmonyMode}
           count={colorCount}
           suggestions={suggestionCount}
+          constraints={constraints}
           onModeChange={setHarmonyMode}
           onCountChange={setColorCount}
           onSuggestionsChange={setSuggestionCount}
+          onConstraintsChange={setConstraints}
           onGenerate={handleGenerate}
         />
       )}
@@ -399,16 +564,51 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
           </h2>
           <p className="palette-hint">
             Pin a palette you like, then use it in the Room Planner tab.
+            Colors marked "anchor" are added by the anchor policy; the
+            Room Planner and Outfit Builder apply their own.
           </p>
+          <div className="suggestions-toolbar">
+            <AnchorPolicySelect id="palette-anchors" settings={anchors} onChange={setAnchors} />
+            <label className="ramp-toggle">
+              <input
+                type="checkbox"
+                checked={showRamps}
+                onChange={(e) => setShowRamps(e.target.checked)}
+              />
+              Tints &amp; shades
+            </label>
+          </div>
+
+          {blendSources.length >= 2 && (
+            <details className="csv-details">
+              <summary className="csv-summary">Blend pinned palettes</summary>
+              <div className="csv-section">
+                <PaletteBlend sources={blendSources} onBlend={handleBlend} />
+              </div>
+            </details>
+          )}
 
           {suggestions.map((suggestion, idx) => {
+            const anchored = applyAnchors(
+              [...lockedSwatches.map((sw) => sw.color), ...suggestion.colors],
+              anchors,
+              suggestion.recipe?.constraints
+            );
             const swatches: SwatchItem[] = [
               ...lockedSwatches,
-              ...suggestion.colors.map((c) => ({
+              ...suggestion.colors.map((c, i) => ({
                 color: c,
                 locked: false,
+                gamut: suggestion.gamut?.[i] ?? null,
               })),
+              ...anchored.colors
+                .filter((_, i) => anchored.anchored[i])
+                .map((c) => ({ color: c, locked: false, anchor: true })),
             ];
+            // Scored as ranked: without the anchors this tab adds
+            const quality = computePaletteQuality(
+              swatches.filter((sw) => !sw.anchor).map((sw) => sw.color)
+            );
 
             return (
               <div
@@ -421,8 +621,35 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
                     {suggestion.pinned && (
                       <span className="pinned-badge">pinned</span>
                     )}
+                    <span className="suggestion-quality" title={describeQuality(quality)}>
+                      Quality {quality.score}
+                    </span>
+                    {suggestion.blend !== undefined && (
+                      <span className="suggestion-quality">
+                        Blend {Math.round(suggestion.blend * 100)}%
+                      </span>
+                    )}
                   </span>
                   <div className="suggestion-actions">
+                    {suggestion.pinned && (
+                      <ExportMenu
+                        title={`Suggestion ${idx + 1}`}
+                        positional
+                        swatches={swatches.map((sw) => ({
+                          name: `${toHex(sw.color).toUpperCase()}${sw.anchor ? " (anchor)" : ""}`,
+                          color: sw.color,
+                        }))}
+                      />
+                    )}
+                    {suggestion.recipe && (
+                      <button
+                        className="btn-recipe"
+                        onClick={() => handleCopyRecipe(idx, suggestion.recipe!)}
+                        title={`Copy recipe: ${encodeRecipe(suggestion.recipe)}`}
+                      >
+                        {copiedIdx === idx ? "Copied" : "Recipe"}
+                      </button>
+                    )}
                     <button
                       className={`btn-pin ${suggestion.pinned ? "active" : ""}`}
                       onClick={() => handleTogglePin(idx)}
@@ -446,7 +673,18 @@ export const PaletteTab = forwardRef<PaletteTabHandle, PaletteTabProps>(function
                     </button>
                   </div>
                 </div>
-                <SwatchStrip swatches={swatches} />
+                {manualCopyIdx === idx && suggestion.recipe && (
+                  <input
+                    className="csv-input recipe-copy"
+                    readOnly
+                    autoFocus
+                    value={encodeRecipe(suggestion.recipe)}
+                    title="Copying failed — press Ctrl+C (⌘C) to copy the recipe"
+                    onFocus={(e) => e.target.select()}
+                    onBlur={() => setManualCopyIdx(null)}
+                  />
+                )}
+                <SwatchStrip swatches={swatches} showRamps={showRamps} />
               </div>
             );
           })}
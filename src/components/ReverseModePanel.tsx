@@ -0,0 +1,154 @@
+import { useState } from "react";
+import type chroma from "chroma-js";
+import type { RoomItem } from "../engine/roomTemplates";
+import { HARMONY_LABELS } from "../engine/harmonies";
+import type { HarmonyMode } from "../engine/harmonies";
+import type { FillAlgorithm } from "../engine/roomAssigner";
+import type { AnchorSettings } from "../engine/anchors";
+import { isPatterned } from "../engine/patterns";
+import { generateAroundFixed } from "../engine/reverseMode";
+import type { ReverseCandidate } from "../engine/reverseMode";
+
+interface ReverseModePanelProps {
+  items: RoomItem[];
+  baseColors: chroma.Color[];
+  algorithm: FillAlgorithm;
+  anchors: AnchorSettings;
+  useRamps: boolean;
+  onApply: (candidate: ReverseCandidate) => void;
+}
+
+const MODES = Object.keys(HARMONY_LABELS) as HarmonyMode[];
+const COUNTS = [3, 4, 5, 6];
+
+/**
+ * Reverse mode: keep every item that already has a color, generate
+ * palettes around those colors, and rank them by how the finished room
+ * scores. Each candidate lists what the open items would become.
+ */
+export function ReverseModePanel({
+  items,
+  baseColors,
+  algorithm,
+  anchors,
+  useRamps,
+  onApply,
+}: ReverseModePanelProps) {
+  const [mode, setMode] = useState<HarmonyMode | "all">("all");
+  const [count, setCount] = useState(4);
+  const [candidates, setCandidates] = useState<ReverseCandidate[]>([]);
+
+  const fixedCount = items.filter((item) => item.color !== null).length;
+  const openItems = items.filter((item) => item.color === null);
+
+  const handleGenerate = () => {
+    setCandidates(
+      generateAroundFixed(items, {
+        // One mode gets as many tries as all modes together
+        modes: mode === "all" ? MODES : [mode],
+        variations: mode === "all" ? 3 : MODES.length * 3,
+        count,
+        seed: Date.now(),
+        algorithm,
+        context: baseColors,
+        anchors,
+        ramps: useRamps,
+      })
+    );
+  };
+
+  const handleApply = (candidate: ReverseCandidate) => {
+    onApply(candidate);
+    setCandidates([]);
+  };
+
+  return (
+    <div className="reverse-mode">
+      <p className="csv-hint">
+        Keeps the {fixedCount} item{fixedCount !== 1 ? "s" : ""} that already have a color and
+        suggests palettes for the {openItems.length} open one{openItems.length !== 1 ? "s" : ""},
+        best finished room first.
+      </p>
+      <div className="reverse-mode-controls">
+        <select
+          className="tendency-select"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as HarmonyMode | "all")}
+          aria-label="Harmony mode"
+        >
+          <option value="all">All modes</option>
+          {MODES.map((m) => (
+            <option key={m} value={m}>
+              {HARMONY_LABELS[m]}
+            </option>
+          ))}
+        </select>
+        <select
+          className="tendency-select"
+          value={count}
+          onChange={(e) => setCount(Number(e.target.value))}
+          aria-label="Colors per palette"
+        >
+          {COUNTS.map((n) => (
+            <option key={n} value={n}>
+              {n} colors
+            </option>
+          ))}
+        </select>
+        <button
+          className="btn-alternative"
+          onClick={handleGenerate}
+          disabled={fixedCount === 0 || openItems.length === 0}
+        >
+          Generate
+        </button>
+      </div>
+
+      {candidates.length > 0 && (
+        <ol className="reverse-mode-list">
+          {candidates.map((candidate, i) => (
+            <li key={i} className="reverse-candidate">
+              <div className="reverse-candidate-head">
+                <span className="reverse-candidate-swatches">
+                  {candidate.colors.map((c, j) => (
+                    <span
+                      key={j}
+                      className="reverse-candidate-swatch"
+                      style={{ background: c.hex() }}
+                      title={c.hex()}
+                    />
+                  ))}
+                </span>
+                <span className="reverse-candidate-mode">{HARMONY_LABELS[candidate.recipe.mode]}</span>
+                <span className="reverse-candidate-score" title="Harmony of the finished room">
+                  {candidate.score}
+                </span>
+                <button className="btn-alternative" onClick={() => handleApply(candidate)}>
+                  Apply
+                </button>
+              </div>
+              <ul className="reverse-candidate-items">
+                {candidate.items
+                  .filter((item) => openItems.some((open) => open.id === item.id) && item.color)
+                  .map((item) => (
+                    <li key={item.id}>
+                      <span
+                        className="reverse-candidate-swatch"
+                        style={{ background: item.color?.hex() }}
+                      />
+                      {item.name}
+                      <span className="reverse-candidate-hex">
+                        {isPatterned(item)
+                          ? item.pattern.map((p) => p.color?.hex() ?? "—").join(" / ")
+                          : item.color?.hex()}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
 import { useState, useMemo, useRef, useEffect } from "react";
 import chroma from "chroma-js";
-import type { RoomItem } from "../engine/roomTemplates";
+import type { RoomItem, Tendency, PatternColor } from "../engine/roomTemplates";
+import { TENDENCY_LABELS } from "../engine/roomTemplates";
 import { toHex } from "../engine/parser";
 import { scoreCandidates } from "../engine/roomAssigner";
 import type { FillAlgorithm } from "../engine/roomAssigner";
 import { SwatchPicker } from "./SwatchPicker";
+import {
+  isPatterned,
+  makePatterned,
+  makeSolid,
+  withPattern,
+  addPatternColor,
+  removePatternColor,
+  MAX_PATTERN_COLORS,
+} from "../engine/patterns";
 
 interface RoomItemRowProps {
   item: RoomItem;
@@ -14,10 +24,33 @@ interface RoomItemRowProps {
   algorithm: FillAlgorithm;
   scoreDelta: number | null;
   avgDelta: number;
+  /** Show the tendency picker (rooms use tendencies, outfits don't) */
+  showTendency?: boolean;
+  /** Linked across the home's rooms */
+  shared?: boolean;
+  /** Let the item hold several colors with proportions (rooms only) */
+  allowPattern?: boolean;
   onUpdate: (item: RoomItem) => void;
   onRemove: () => void;
 }
 
+const TENDENCIES = Object.keys(TENDENCY_LABELS) as Tendency[];
+
+const EMPTY_SWATCH = "#e8e5e0";
+
+/** Hard-edged bands, one per pattern color, sized by proportion */
+function patternGradient(pattern: PatternColor[]): string {
+  const total = pattern.reduce((s, p) => s + Math.max(0, p.proportion), 0) || 1;
+  let at = 0;
+  const stops = pattern.map((p) => {
+    const from = at;
+    at += (Math.max(0, p.proportion) / total) * 100;
+    const hex = p.color ? toHex(p.color) : EMPTY_SWATCH;
+    return `${hex} ${from.toFixed(1)}% ${at.toFixed(1)}%`;
+  });
+  return `linear-gradient(to right, ${stops.join(", ")})`;
+}
+
 export function RoomItemRow({
   item,
   palette,
@@ -26,6 +59,9 @@ export function RoomItemRow({
   algorithm,
   scoreDelta,
   avgDelta,
+  showTendency = false,
+  shared = false,
+  allowPattern = false,
   onUpdate,
   onRemove,
 }: RoomItemRowProps) {
@@ -33,6 +69,11 @@ export function RoomItemRow({
   const [stripOpen, setStripOpen] = useState(false);
   const [hexInput, setHexInput] = useState("");
   const stripRef = useRef<HTMLDivElement>(null);
+  // Which pattern color the strip and picker assign to
+  const [slot, setSlot] = useState(0);
+  const patterned = isPatterned(item);
+  const activeSlot = patterned ? Math.min(slot, item.pattern.length - 1) : 0;
+  const slotColor = patterned ? item.pattern[activeSlot].color : item.color;
 
   useEffect(() => {
     if (stripOpen && stripRef.current) {
@@ -40,7 +81,9 @@ export function RoomItemRow({
     }
   }, [stripOpen]);
 
-  const bgHex = item.color ? toHex(item.color) : "#e8e5e0";
+  const bgHex = item.color ? toHex(item.color) : EMPTY_SWATCH;
+  // Patterned swatches show each color as a band of its share
+  const swatchBackground = patterned ? patternGradient(item.pattern) : bgHex;
   const textColor = item.color
     ? chroma.contrast(item.color, "white") > 3
       ? "#fff"
@@ -57,24 +100,43 @@ export function RoomItemRow({
     [palette, otherRoomColors, algorithm, otherRoomWeights, myWeight]
   );
 
-  const currentHex = item.color ? toHex(item.color) : null;
+  const currentHex = slotColor ? toHex(slotColor) : null;
+
+  /** Set the color of the whole item, or of the active pattern color */
+  const assign = (color: chroma.Color | null) => {
+    if (patterned) {
+      onUpdate(withPattern(item, item.pattern.map((p, i) => (i === activeSlot ? { ...p, color } : p))));
+    } else {
+      onUpdate({ ...item, color });
+    }
+  };
 
   const handleQuickPick = (color: chroma.Color) => {
-    onUpdate({ ...item, color });
+    assign(color);
     setStripOpen(false);
   };
 
   const handleUnassign = () => {
-    onUpdate({ ...item, color: null });
+    assign(null);
     setStripOpen(false);
   };
 
+  const handleProportion = (index: number, proportion: number) => {
+    if (!patterned || !Number.isFinite(proportion)) return;
+    onUpdate(
+      withPattern(
+        item,
+        item.pattern.map((p, i) => (i === index ? { ...p, proportion: Math.max(0, proportion) } : p))
+      )
+    );
+  };
+
   const handleHexSubmit = () => {
     const val = hexInput.trim();
     if (!val) return;
     try {
       const color = chroma(val.startsWith("#") ? val : `#${val}`);
-      onUpdate({ ...item, color });
+      assign(color);
       setHexInput("");
       setStripOpen(false);
     } catch {
@@ -86,7 +148,7 @@ export function RoomItemRow({
     <div className={`room-item-row ${isHurting ? "room-item-clash" : ""}`}>
       <div
         className="room-item-swatch"
-        style={{ backgroundColor: bgHex, cursor: "pointer" }}
+        style={{ background: swatchBackground, cursor: "pointer" }}
         onClick={() => setStripOpen(!stripOpen)}
         title="Click to assign a color"
       >
@@ -107,6 +169,29 @@ export function RoomItemRow({
         spellCheck={false}
       />
 
+      {shared && (
+        <span className="room-item-shared" title="Shared across rooms: a new color here applies to every room">
+          Linked
+        </span>
+      )}
+
+      {showTendency && (
+        <select
+          className="tendency-select"
+          value={item.tendency}
+          onChange={(e) =>
+            onUpdate({ ...item, tendency: e.target.value as Tendency })
+          }
+          title="Steers auto-fill for this item"
+        >
+          {TENDENCIES.map((t) => (
+            <option key={t} value={t}>
+              {TENDENCY_LABELS[t]}
+            </option>
+          ))}
+        </select>
+      )}
+
       {item.color !== null && scoreDelta !== null && (
         <span
           className={`room-item-fit ${isHurting ? "fit-hurt" : isHelping ? "fit-good" : "fit-neutral"}`}
@@ -116,6 +201,19 @@ export function RoomItemRow({
         </span>
       )}
 
+      {allowPattern && (
+        <button
+          className={`btn-pick-color ${patterned ? "active" : ""}`}
+          onClick={() => {
+            setSlot(0);
+            onUpdate(patterned ? makeSolid(item) : makePatterned(item));
+          }}
+          title={patterned ? "Make this a single-color item" : "Give this item several colors, like a patterned rug"}
+        >
+          {patterned ? "Solid" : "Pattern"}
+        </button>
+      )}
+
       <button
         className={`btn-pick-color ${stripOpen ? "active" : ""}`}
         onClick={() => setStripOpen(!stripOpen)}
@@ -132,6 +230,49 @@ export function RoomItemRow({
         ×
       </button>
 
+      {patterned && (
+        <div className="pattern-editor">
+          {item.pattern.map((p, i) => (
+            <div key={i} className={`pattern-slot ${i === activeSlot ? "active" : ""}`}>
+              <button
+                className="pattern-slot-swatch"
+                style={{ backgroundColor: p.color ? toHex(p.color) : EMPTY_SWATCH }}
+                onClick={() => {
+                  setSlot(i);
+                  setStripOpen(true);
+                }}
+                title={p.color ? toHex(p.color).toUpperCase() : "Pick this color"}
+              />
+              <input
+                type="number"
+                className="pattern-slot-share"
+                min={0}
+                max={100}
+                value={p.proportion}
+                onChange={(e) => handleProportion(i, Number(e.target.value))}
+                aria-label={`Share of color ${i + 1}`}
+              />
+              <span className="pattern-slot-unit">%</span>
+              <button
+                className="btn-dismiss"
+                onClick={() => {
+                  setSlot(0);
+                  onUpdate(removePatternColor(item, i));
+                }}
+                title="Remove this color"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {item.pattern.length < MAX_PATTERN_COLORS && (
+            <button className="btn-alternative" onClick={() => onUpdate(addPatternColor(item))}>
+              + Color
+            </button>
+          )}
+        </div>
+      )}
+
       {stripOpen && (
         <div className="palette-strip" ref={stripRef}>
           <input
@@ -156,7 +297,7 @@ export function RoomItemRow({
               />
             );
           })}
-          {item.color && (
+          {slotColor && (
             <button
               className="palette-strip-unassign"
               onClick={handleUnassign}
@@ -181,9 +322,9 @@ export function RoomItemRow({
       {pickerOpen && (
         <SwatchPicker
           candidates={candidates}
-          currentColor={item.color}
+          currentColor={slotColor}
           onPick={(color) => {
-            onUpdate({ ...item, color });
+            assign(color);
             setPickerOpen(false);
           }}
           onClose={() => setPickerOpen(false)}
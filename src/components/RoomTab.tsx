@@ -1,67 +1,161 @@
 import { useState, useCallback, useMemo, useEffect, useImperativeHandle, forwardRef } from "react";
 import chroma from "chroma-js";
-import { ROOM_TEMPLATES } from "../engine/roomTemplates";
-import type { RoomItem } from "../engine/roomTemplates";
-import { getCatalogByCategory, CATEGORY_LABELS } from "../engine/itemCatalog";
-import type { ItemCategory } from "../engine/itemCatalog";
+import {
+  ROOM_TEMPLATES,
+  CUSTOM_TEMPLATE_PREFIX,
+  findRoomTemplate,
+  templateFromRoom,
+} from "../engine/roomTemplates";
+import type { RoomItem, RoomTemplate, CustomRoomTemplate } from "../engine/roomTemplates";
+import { getCatalogByCategory, getCatalogWeight, CATEGORY_LABELS } from "../engine/itemCatalog";
+import type { CatalogItem, ItemCategory } from "../engine/itemCatalog";
 import {
   autoFillRoom,
-  computeHarmonyScore,
-  itemScoreDelta,
+  computeHarmonyBreakdown,
   FILL_LABELS,
   FILL_DESCRIPTIONS,
 } from "../engine/roomAssigner";
-import type { FillAlgorithm } from "../engine/roomAssigner";
+import type { FillAlgorithm, UnmetTendency } from "../engine/roomAssigner";
+import { optimizeRoomFill } from "../engine/roomOptimizer";
+import type { RankedFill } from "../engine/roomOptimizer";
 import { RoomItemRow } from "./RoomItemRow";
-import { serializeRoomItems, deserializeRoomItems } from "../engine/persistence";
+import { HarmonyBreakdownPanel } from "./HarmonyBreakdownPanel";
+import { ExportMenu } from "./ExportMenu";
+import { buildRoomSpecSheet } from "../engine/specSheet";
+import {
+  serializeHome,
+  deserializeHome,
+  serializeRoomTemplates,
+  deserializeRoomTemplates,
+} from "../engine/persistence";
 import type { AppState } from "../engine/persistence";
+import type { WorkingSpace } from "../engine/colorSpace";
+import { applyAnchors } from "../engine/anchors";
+import type { AnchorSettings } from "../engine/anchors";
+import type { PaletteRecipe } from "../engine/recipe";
+import { AnchorPolicySelect } from "./AnchorPolicySelect";
+import { expandWithRamps } from "../engine/ramps";
+import {
+  addRoom,
+  removeRoom,
+  updateRoom,
+  toggleAdjacency,
+  toggleSharedItem,
+  isSharedItem,
+  sharedColorElsewhere,
+  computeHomeCohesion,
+} from "../engine/home";
+import type { Home } from "../engine/home";
+import { HomeRooms } from "./HomeRooms";
+import {
+  roomColorComponents,
+  computePatternedItemDeltas,
+  fillPatterns,
+  clearPatternColors,
+  computeRoomScore,
+} from "../engine/patterns";
+import { CatalogEditor } from "./CatalogEditor";
+import { ReverseModePanel } from "./ReverseModePanel";
+import type { ReverseCandidate } from "../engine/reverseMode";
+import type { GamutAdjustment } from "../engine/gamut";
 
 interface Suggestion {
   colors: chroma.Color[];
   pinned: boolean;
+  recipe?: PaletteRecipe;
 }
 
 interface RoomTabProps {
   pinnedSuggestions: Suggestion[];
   baseColors: chroma.Color[];
+  /** Scores are recomputed when the working space changes */
+  workingSpace: WorkingSpace;
+  /** User-defined and overriding catalog items */
+  customCatalog: CatalogItem[];
+  onCustomCatalogChange: (items: CatalogItem[]) => void;
+  /** Add a palette to the pinned suggestions */
+  onPinPalette: (colors: chroma.Color[], gamut: (GamutAdjustment | null)[], recipe: PaletteRecipe) => void;
   savedState?: AppState | null;
   onStateChange?: () => void;
 }
 
 export interface RoomTabHandle {
   getState: () => {
-    roomItems: ReturnType<typeof serializeRoomItems>;
-    selectedTemplate: string;
+    home: ReturnType<typeof serializeHome>;
+    roomTemplates: ReturnType<typeof serializeRoomTemplates>;
     fillAlgorithm: string;
     manuallyAssigned: number[];
+    anchors: AnchorSettings;
+    useRamps: boolean;
   };
 }
 
 let nextItemId = 1000;
+let nextRoomId = 2;
 
 const ALGORITHMS = Object.keys(FILL_LABELS) as FillAlgorithm[];
 
-function instantiateTemplate(templateIdx: number): RoomItem[] {
-  const template = ROOM_TEMPLATES[templateIdx];
+/** Default room name for a template choice */
+function templateName(template: string, custom: CustomRoomTemplate[] = []): string {
+  if (template === "custom") return "Custom Room";
+  return findRoomTemplate(template, custom)?.name || "Room";
+}
+
+/**
+ * Fresh items for a template. Built-in templates take each item's
+ * weight from the catalog, so custom overrides apply; user templates
+ * keep the weights they were saved with.
+ */
+function instantiateTemplate(template: RoomTemplate, catalogWeights: boolean): RoomItem[] {
   return template.items.map((item) => ({
     ...item,
+    weight: catalogWeights ? getCatalogWeight(item.name) : item.weight,
     id: nextItemId++,
   }));
 }
 
 export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
-  { pinnedSuggestions, baseColors, savedState, onStateChange },
+  {
+    pinnedSuggestions,
+    baseColors,
+    workingSpace,
+    customCatalog,
+    onCustomCatalogChange,
+    onPinPalette,
+    savedState,
+    onStateChange,
+  },
   ref
 ) {
-  const [roomItems, setRoomItems] = useState<RoomItem[]>(() => {
-    if (savedState?.roomItems?.length) {
-      const restored = deserializeRoomItems(savedState.roomItems);
-      nextItemId = Math.max(nextItemId, ...restored.map((i) => i.id + 1));
-      return restored;
-    }
-    return [];
+  const [restored] = useState(() => {
+    const result = deserializeHome(savedState, (t) => templateName(t));
+    const rooms = result.home.rooms;
+    nextRoomId = Math.max(nextRoomId, ...rooms.map((r) => r.id + 1));
+    nextItemId = Math.max(nextItemId, ...rooms.flatMap((r) => r.items.map((i) => i.id + 1)));
+    return result;
   });
-  const [selectedTemplate, setSelectedTemplate] = useState<string>(savedState?.selectedTemplate ?? "");
+  const [home, setHome] = useState<Home>(restored.home);
+  const [activeRoomId, setActiveRoomId] = useState<number>(restored.activeRoomId);
+  const activeRoom = home.rooms.find((r) => r.id === activeRoomId) ?? home.rooms[0];
+  const roomItems = activeRoom.items;
+  const selectedTemplate = activeRoom.template;
+
+  // Every edit goes through the home so shared items stay linked
+  const setRoomItems = useCallback(
+    (update: RoomItem[] | ((prev: RoomItem[]) => RoomItem[])) => {
+      setHome((prev) => {
+        const room = prev.rooms.find((r) => r.id === activeRoom.id);
+        if (!room) return prev;
+        const items = typeof update === "function" ? update(room.items) : update;
+        return updateRoom(prev, room.id, { items });
+      });
+    },
+    [activeRoom.id]
+  );
+  const [customTemplates, setCustomTemplates] = useState<CustomRoomTemplate[]>(() =>
+    deserializeRoomTemplates(savedState?.roomTemplates ?? [])
+  );
+  const [templateDraft, setTemplateDraft] = useState<string | null>(null);
   const [selectedPaletteIdx, setSelectedPaletteIdx] = useState<number>(-1);
   const [fillAlgorithm, setFillAlgorithm] = useState<FillAlgorithm>(
     (savedState?.fillAlgorithm as FillAlgorithm) ?? "surface-area"
@@ -69,20 +163,29 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
   const [manuallyAssigned, setManuallyAssigned] = useState<Set<number>>(
     new Set(savedState?.manuallyAssigned ?? [])
   );
+  const [anchors, setAnchors] = useState<AnchorSettings>(
+    savedState?.roomAnchors ?? { policy: "interior", custom: [] }
+  );
+  const [useRamps, setUseRamps] = useState<boolean>(savedState?.roomRamps ?? false);
+  const [unmetTendencies, setUnmetTendencies] = useState<UnmetTendency[]>([]);
+  const [alternatives, setAlternatives] = useState<RankedFill[]>([]);
+  const [activeAlternative, setActiveAlternative] = useState(0);
 
   useImperativeHandle(ref, () => ({
     getState: () => ({
-      roomItems: serializeRoomItems(roomItems),
-      selectedTemplate,
+      home: serializeHome(home, activeRoom.id),
+      roomTemplates: serializeRoomTemplates(customTemplates),
       fillAlgorithm,
       manuallyAssigned: Array.from(manuallyAssigned),
+      anchors,
+      useRamps,
     }),
   }));
 
   // Trigger save on room state changes
   useEffect(() => {
     onStateChange?.();
-  }, [roomItems, selectedTemplate, fillAlgorithm]);
+  }, [home, activeRoomId, customTemplates, fillAlgorithm, anchors, useRamps]);
 
   // Auto-select first pinned palette when one becomes available
   useEffect(() => {
@@ -92,16 +195,97 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
   }, [pinnedSuggestions.length, selectedPaletteIdx]);
 
   const handleTemplateChange = (value: string) => {
-    setSelectedTemplate(value);
-    setManuallyAssigned(new Set());
-    if (value === "custom") {
-      setRoomItems([]);
-    } else {
-      const idx = parseInt(value, 10);
-      if (!isNaN(idx) && idx >= 0 && idx < ROOM_TEMPLATES.length) {
-        setRoomItems(instantiateTemplate(idx));
-      }
-    }
+    setUnmetTendencies([]);
+    setAlternatives([]);
+    const template = findRoomTemplate(value, customTemplates);
+    const items =
+      value === "custom"
+        ? []
+        : template
+          ? instantiateTemplate(template, !value.startsWith(CUSTOM_TEMPLATE_PREFIX))
+          : roomItems;
+    // Follow the template's name unless the room was given its own
+    const renamed =
+      activeRoom.name === templateName(activeRoom.template, customTemplates) ||
+      /^Room \d+$/.test(activeRoom.name);
+    setHome((prev) =>
+      updateRoom(prev, activeRoom.id, {
+        template: value,
+        items,
+        ...(renamed ? { name: templateName(value, customTemplates) } : {}),
+      })
+    );
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateDraft?.trim();
+    if (!name) return;
+    const template = templateFromRoom(name, roomItems, customTemplates);
+    setCustomTemplates((prev) => [...prev, template]);
+    setHome((prev) =>
+      updateRoom(prev, activeRoom.id, { template: `${CUSTOM_TEMPLATE_PREFIX}${template.id}` })
+    );
+    setTemplateDraft(null);
+  };
+
+  const handleDeleteTemplate = () => {
+    const value = selectedTemplate;
+    setCustomTemplates((prev) => prev.filter((t) => `${CUSTOM_TEMPLATE_PREFIX}${t.id}` !== value));
+    // Rooms built from it keep their items
+    setHome((prev) => ({
+      ...prev,
+      rooms: prev.rooms.map((r) => (r.template === value ? { ...r, template: "custom" } : r)),
+    }));
+  };
+
+  // Items already in the home take the new weight of the entries that changed
+  const handleCatalogChange = (items: CatalogItem[]) => {
+    const weights = (list: CatalogItem[]) =>
+      new Map(list.map((item) => [item.name.trim().toLowerCase(), item.weight]));
+    const before = weights(customCatalog);
+    const after = weights(items);
+    // Added, removed or re-weighted — other entries leave item weights alone
+    const touched = new Set(
+      [...before.keys(), ...after.keys()].filter((name) => before.get(name) !== after.get(name))
+    );
+    onCustomCatalogChange(items);
+    setHome((prev) => ({
+      ...prev,
+      rooms: prev.rooms.map((room) => ({
+        ...room,
+        items: room.items.map((item) =>
+          touched.has(item.name.trim().toLowerCase())
+            ? { ...item, weight: getCatalogWeight(item.name) }
+            : item
+        ),
+      })),
+    }));
+  };
+
+  const resetRoomView = () => {
+    setUnmetTendencies([]);
+    setAlternatives([]);
+    setShowCatalog(false);
+  };
+
+  const handleSelectRoom = (roomId: number) => {
+    setActiveRoomId(roomId);
+    resetRoomView();
+  };
+
+  const handleAddRoom = () => {
+    const id = nextRoomId++;
+    setHome((prev) =>
+      addRoom(prev, { id, name: `Room ${prev.rooms.length + 1}`, template: "", items: [] })
+    );
+    handleSelectRoom(id);
+  };
+
+  const handleRemoveRoom = (roomId: number) => {
+    const remaining = home.rooms.filter((r) => r.id !== roomId);
+    if (remaining.length === 0) return;
+    setHome((prev) => removeRoom(prev, roomId));
+    if (roomId === activeRoom.id) handleSelectRoom(remaining[0].id);
   };
 
   const [showCatalog, setShowCatalog] = useState(false);
@@ -119,11 +303,16 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
   };
 
   const handleUpdateItem = useCallback((updated: RoomItem) => {
+    const previous = roomItems.find((item) => item.id === updated.id);
     setRoomItems((prev) =>
       prev.map((item) => (item.id === updated.id ? updated : item))
     );
+    // Renames, tendency and proportion changes leave auto-filled colors re-fillable
+    const colorsOf = (item: RoomItem) =>
+      roomColorComponents([item]).map((c) => c.color.hex()).join(" ");
+    if (previous && colorsOf(previous) === colorsOf(updated)) return;
     // If user is assigning/unassigning a color, track it
-    if (updated.color !== null) {
+    if (colorsOf(updated) !== "") {
       setManuallyAssigned((prev) => new Set(prev).add(updated.id));
     } else {
       setManuallyAssigned((prev) => {
@@ -132,80 +321,142 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
         return next;
       });
     }
-  }, []);
+  }, [roomItems, setRoomItems]);
 
   const handleRemoveItem = useCallback((id: number) => {
     setRoomItems((prev) => prev.filter((item) => item.id !== id));
-  }, []);
+  }, [setRoomItems]);
 
+  // Pinned palettes are stored without anchors; the room's policy adds them here
   const activePalette: chroma.Color[] = useMemo(() => {
     const colors = [...baseColors];
-    if (
-      selectedPaletteIdx >= 0 &&
-      selectedPaletteIdx < pinnedSuggestions.length
-    ) {
-      colors.push(...pinnedSuggestions[selectedPaletteIdx].colors);
-    }
-    return colors;
-  }, [baseColors, pinnedSuggestions, selectedPaletteIdx]);
+    const suggestion =
+      selectedPaletteIdx >= 0 && selectedPaletteIdx < pinnedSuggestions.length
+        ? pinnedSuggestions[selectedPaletteIdx]
+        : null;
+    if (suggestion) colors.push(...suggestion.colors);
+    return applyAnchors(colors, anchors, suggestion?.recipe?.constraints).colors;
+  }, [baseColors, pinnedSuggestions, selectedPaletteIdx, anchors]);
+
+  // Auto-fill may also draw on each palette color's tints and shades
+  const fillPalette: chroma.Color[] = useMemo(
+    () => (useRamps ? expandWithRamps(activePalette) : activePalette),
+    [activePalette, useRamps]
+  );
+
+  // Shared items another room has already colored are kept as well, so
+  // filling one room never repaints its neighbours' floors
+  const clearAutoAssigned = () =>
+    roomItems.map((item) =>
+      manuallyAssigned.has(item.id) || sharedColorElsewhere(home, activeRoom.id, item.name)
+        ? item
+        : clearPatternColors(item)
+    );
 
   const handleAutoFill = () => {
     if (activePalette.length === 0) return;
     // Clear auto-assigned colors first, keep manually assigned ones
-    const cleared = roomItems.map((item) =>
-      manuallyAssigned.has(item.id) ? item : { ...item, color: null }
-    );
-    const filled = autoFillRoom(cleared, activePalette, fillAlgorithm);
-    setRoomItems(filled);
+    const cleared = clearAutoAssigned();
+    const filled = autoFillRoom(cleared, fillPalette, fillAlgorithm);
+    setRoomItems(fillPatterns(filled.items, fillPalette, fillAlgorithm));
+    setUnmetTendencies(filled.unmet);
+    setAlternatives([]);
+  };
+
+  const handleOptimize = () => {
+    if (activePalette.length === 0) return;
+    const cleared = clearAutoAssigned();
+    const ranked = optimizeRoomFill(cleared, fillPalette, fillAlgorithm, {
+      topN: 3,
+      seed: fillPalette.length * 7919 + cleared.length,
+    });
+    if (ranked.length === 0) return;
+    // Complete patterned items, then score and rank what the room will really show
+    const completed = ranked
+      .map((fill) => {
+        const items = fillPatterns(fill.items, fillPalette, fillAlgorithm);
+        return { items, score: computeRoomScore(items, fillAlgorithm, activePalette, workingSpace) };
+      })
+      .sort((a, b) => b.score - a.score);
+    setAlternatives(completed);
+    setActiveAlternative(0);
+    setRoomItems(completed[0].items);
+    setUnmetTendencies([]);
+  };
+
+  const handlePickAlternative = (idx: number) => {
+    setActiveAlternative(idx);
+    setRoomItems(alternatives[idx].items);
+  };
+
+  const roomTitle = activeRoom.name || templateName(selectedTemplate, customTemplates);
+
+  /** Open the printable spec sheet in a new tab */
+  const handleSpecSheet = () => {
+    const html = buildRoomSpecSheet({
+      title: roomTitle,
+      items: roomItems,
+      palette: activePalette,
+      breakdown: harmonyBreakdown,
+      algorithm: fillAlgorithm,
+    });
+    const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+    window.open(url, "_blank");
+    // The new tab has loaded the page well before this
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  /**
+   * Take a reverse-mode candidate: the room gets its fills, its palette
+   * is pinned and selected, and the items it was built around count as
+   * manually assigned so a re-fill keeps them.
+   */
+  const handleApplyReverse = (candidate: ReverseCandidate) => {
+    const fixed = roomItems.filter((item) => item.color !== null).map((item) => item.id);
+    setRoomItems(candidate.items);
+    setManuallyAssigned((prev) => new Set([...prev, ...fixed]));
+    onPinPalette(candidate.colors, candidate.gamut, candidate.recipe);
+    setSelectedPaletteIdx(pinnedSuggestions.length);
+    setUnmetTendencies([]);
+    setAlternatives([]);
   };
 
   const handleClearAssignments = () => {
-    setRoomItems((prev) => prev.map((item) => ({ ...item, color: null })));
+    setRoomItems((prev) => prev.map(clearPatternColors));
     setManuallyAssigned(new Set());
+    setUnmetTendencies([]);
+    setAlternatives([]);
   };
 
-  const assignedItems = useMemo(
-    () => roomItems.filter((item) => item.color !== null),
-    [roomItems]
-  );
+  // One sample per solid item and per pattern color
+  const components = useMemo(() => roomColorComponents(roomItems), [roomItems]);
 
-  const assignedColors = useMemo(
-    () => assignedItems.map((item) => item.color!),
-    [assignedItems]
-  );
+  const assignedColors = useMemo(() => components.map((c) => c.color), [components]);
+
+  const assignedWeights = useMemo(() => components.map((c) => c.weight), [components]);
 
-  const assignedWeights = useMemo(
-    () => assignedItems.map((item) => item.weight),
-    [assignedItems]
+  const harmonyBreakdown = useMemo(
+    () => computeHarmonyBreakdown(assignedColors, fillAlgorithm, activePalette, assignedWeights, workingSpace),
+    [assignedColors, fillAlgorithm, activePalette, assignedWeights, workingSpace]
   );
+  const harmonyScore = harmonyBreakdown.score;
 
-  const harmonyScore = useMemo(
-    () => computeHarmonyScore(assignedColors, fillAlgorithm, activePalette, assignedWeights),
-    [assignedColors, fillAlgorithm, activePalette, assignedWeights]
+  const homeCohesion = useMemo(
+    () => computeHomeCohesion(home, activePalette, fillAlgorithm, workingSpace),
+    [home, activePalette, fillAlgorithm, workingSpace]
   );
 
   // Per-item score delta: positive = helping, negative = hurting
   const itemDeltas = useMemo(() => {
+    // One prepared score for the whole room; each delta drops a single
+    // item, with all its pattern colors, from it.
+    const deltas = computePatternedItemDeltas(roomItems, fillAlgorithm, activePalette, workingSpace);
     const map = new Map<number, number | null>();
-    for (const item of roomItems) {
-      if (item.color === null || assignedColors.length < 2) {
-        map.set(item.id, null);
-      } else {
-        map.set(
-          item.id,
-          itemScoreDelta(
-            item.color,
-            assignedColors,
-            fillAlgorithm,
-            activePalette,
-            assignedWeights,
-            item.weight
-          )
-        );
-      }
-    }
+    roomItems.forEach((item, i) => {
+      map.set(item.id, assignedColors.length < 2 ? null : deltas[i]);
+    });
     return map;
-  }, [roomItems, assignedColors, fillAlgorithm, activePalette, assignedWeights]);
+  }, [roomItems, assignedColors, fillAlgorithm, activePalette, workingSpace]);
 
   // Average delta across all assigned items (for relative comparison)
   const allDeltas = Array.from(itemDeltas.values()).filter(
@@ -235,6 +486,18 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
         </div>
       )}
 
+      <HomeRooms
+        home={home}
+        activeRoomId={activeRoom.id}
+        cohesion={homeCohesion}
+        onSelect={handleSelectRoom}
+        onAdd={handleAddRoom}
+        onRemove={handleRemoveRoom}
+        onRename={(roomId, name) => setHome((prev) => updateRoom(prev, roomId, { name }))}
+        onToggleAdjacency={(a, b) => setHome((prev) => toggleAdjacency(prev, a, b))}
+        onToggleShared={(name) => setHome((prev) => toggleSharedItem(prev, name))}
+      />
+
       {/* Room & Palette Selectors */}
       <section className="room-selector-section">
         <div className="room-selector-row">
@@ -251,11 +514,22 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
               <option value="" disabled>
                 Choose a room...
               </option>
-              {ROOM_TEMPLATES.map((t, i) => (
-                <option key={i} value={String(i)}>
-                  {t.name}
-                </option>
-              ))}
+              <optgroup label="Built-in">
+                {ROOM_TEMPLATES.map((t, i) => (
+                  <option key={i} value={String(i)}>
+                    {t.name}
+                  </option>
+                ))}
+              </optgroup>
+              {customTemplates.length > 0 && (
+                <optgroup label="My templates">
+                  {customTemplates.map((t) => (
+                    <option key={t.id} value={`${CUSTOM_TEMPLATE_PREFIX}${t.id}`}>
+                      {t.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
               <option value="custom">Custom Room</option>
             </select>
           </div>
@@ -284,25 +558,78 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
               ))}
             </select>
           </div>
+
+          <AnchorPolicySelect id="room-anchors" settings={anchors} onChange={setAnchors} />
         </div>
+
+        {roomItems.length > 0 && (
+          <div className="template-save">
+            {templateDraft === null ? (
+              <button
+                className="btn-alternative"
+                onClick={() => setTemplateDraft(activeRoom.name)}
+                title="Save this room's items, weights and tendencies as a template"
+              >
+                Save as Template
+              </button>
+            ) : (
+              <>
+                <input
+                  type="text"
+                  className="room-item-name home-room-name"
+                  value={templateDraft}
+                  onChange={(e) => setTemplateDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSaveTemplate();
+                    if (e.key === "Escape") setTemplateDraft(null);
+                  }}
+                  placeholder="Template name"
+                  aria-label="Template name"
+                  autoFocus
+                />
+                <button
+                  className="btn-alternative"
+                  onClick={handleSaveTemplate}
+                  disabled={!templateDraft.trim()}
+                >
+                  Save
+                </button>
+                <button className="btn-alternative" onClick={() => setTemplateDraft(null)}>
+                  Cancel
+                </button>
+              </>
+            )}
+            {selectedTemplate.startsWith(CUSTOM_TEMPLATE_PREFIX) && (
+              <button className="btn-clear" onClick={handleDeleteTemplate}>
+                Delete Template
+              </button>
+            )}
+          </div>
+        )}
       </section>
 
       {/* Harmony Score */}
       {assignedCount >= 2 && (
-        <div className="harmony-score-bar">
-          <div className="harmony-score-label">
-            Room Harmony
-          </div>
-          <div className="harmony-score-track">
-            <div
-              className="harmony-score-fill"
-              style={{ width: `${harmonyScore}%` }}
-            />
-          </div>
-          <div className="harmony-score-value">
-            {harmonyScore}
+        <>
+          <div className="harmony-score-bar">
+            <div className="harmony-score-label">
+              Room Harmony
+            </div>
+            <div className="harmony-score-track">
+              <div
+                className="harmony-score-fill"
+                style={{ width: `${harmonyScore}%` }}
+              />
+            </div>
+            <div className="harmony-score-value">
+              {harmonyScore}
+            </div>
           </div>
-        </div>
+          <HarmonyBreakdownPanel
+            breakdown={harmonyBreakdown}
+            itemNames={components.map((c) => roomItems[c.itemIndex].name)}
+          />
+        </>
       )}
 
       {/* Room Items */}
@@ -311,6 +638,29 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
           <div className="section-header">
             <h2>Room Items</h2>
             <div className="section-header-actions">
+              {assignedCount > 0 && (
+                <>
+                  <ExportMenu
+                    title={roomTitle}
+                    swatches={components.map((c) => {
+                      const item = roomItems[c.itemIndex];
+                      const share = Math.round((c.weight / item.weight) * 100);
+                      return {
+                        name: share < 100 ? `${item.name} (${share}%)` : item.name,
+                        color: c.color,
+                        weight: c.weight,
+                      };
+                    })}
+                  />
+                  <button
+                    className="btn-spec-sheet"
+                    onClick={handleSpecSheet}
+                    title="Open a printable sheet for painters and contractors"
+                  >
+                    Spec Sheet
+                  </button>
+                </>
+              )}
               {assignedCount > 0 && (
                 <button
                   className="btn-clear"
@@ -360,17 +710,25 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
                   + Custom item…
                 </button>
               </div>
+              <details className="csv-details">
+                <summary className="csv-summary">
+                  Edit custom items{customCatalog.length > 0 ? ` (${customCatalog.length})` : ""}
+                </summary>
+                <div className="csv-section">
+                  <CatalogEditor items={customCatalog} onChange={handleCatalogChange} />
+                </div>
+              </details>
             </div>
           )}
 
           <div className="room-items-list">
             {roomItems.map((item) => {
               // Other colors/weights = all assigned items except this one
-              const otherItems = assignedItems.filter(
-                (ai) => ai.id !== item.id
+              const others = components.filter(
+                (c) => roomItems[c.itemIndex].id !== item.id
               );
-              const otherColors = otherItems.map((ai) => ai.color!);
-              const otherWeights = otherItems.map((ai) => ai.weight);
+              const otherColors = others.map((c) => c.color);
+              const otherWeights = others.map((c) => c.weight);
               return (
                 <RoomItemRow
                   key={item.id}
@@ -381,6 +739,9 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
                   algorithm={fillAlgorithm}
                   scoreDelta={itemDeltas.get(item.id) ?? null}
                   avgDelta={avgDelta}
+                  showTendency
+                  allowPattern
+                  shared={home.rooms.length > 1 && isSharedItem(home, item.name)}
                   onUpdate={handleUpdateItem}
                   onRemove={() => handleRemoveItem(item.id)}
                 />
@@ -416,8 +777,68 @@ export const RoomTab = forwardRef<RoomTabHandle, RoomTabProps>(function RoomTab(
                     ? `Auto-Fill ${unassignedCount} Item${unassignedCount > 1 ? "s" : ""}`
                     : "Re-Fill"}
               </button>
+              <button
+                className="btn-optimize"
+                onClick={handleOptimize}
+                disabled={!canFill}
+                title="Search for the highest-scoring fills"
+              >
+                Find Best
+              </button>
+              <label
+                className="ramp-toggle"
+                title="Let auto-fill use lighter and darker versions of each palette color"
+              >
+                <input
+                  type="checkbox"
+                  checked={useRamps}
+                  onChange={(e) => setUseRamps(e.target.checked)}
+                />
+                Tints &amp; shades
+              </label>
             </div>
           )}
+
+          {alternatives.length > 1 && (
+            <div className="fill-alternatives">
+              <span className="fill-alternatives-label">Best fills</span>
+              {alternatives.map((alt, i) => (
+                <button
+                  key={i}
+                  className={`btn-alternative ${i === activeAlternative ? "active" : ""}`}
+                  onClick={() => handlePickAlternative(i)}
+                >
+                  Option {i + 1} · {alt.score}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {unmetTendencies.length > 0 && (
+            <ul className="autofill-notice">
+              {unmetTendencies.map((miss) => (
+                <li key={miss.itemId}>
+                  <strong>{miss.name}</strong> — {miss.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {assignedCount > 0 && unassignedCount > 0 && (
+            <details className="csv-details">
+              <summary className="csv-summary">Design around what you have</summary>
+              <div className="csv-section">
+                <ReverseModePanel
+                  items={roomItems}
+                  baseColors={baseColors}
+                  algorithm={fillAlgorithm}
+                  anchors={anchors}
+                  useRamps={useRamps}
+                  onApply={handleApplyReverse}
+                />
+              </div>
+            </details>
+          )}
         </section>
       )}
     </div>
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import chroma from "chroma-js";
+import { readSwatchFile } from "../engine/swatchFiles";
+
+interface SwatchFileImportProps {
+  onImport: (colors: chroma.Color[]) => void;
+}
+
+/**
+ * "From swatch file" importer: read an .ase, .gpl or .aco file and add
+ * its colors as locked base colors.
+ */
+export function SwatchFileImport({ onImport }: SwatchFileImportProps) {
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = readSwatchFile(file.name, new Uint8Array(await file.arrayBuffer()));
+    if (!result.ok) {
+      setMessage("");
+      setError(result.error);
+      return;
+    }
+    onImport(result.swatches.map((s) => s.color));
+    setError("");
+    setMessage(`Added ${result.swatches.length} colors from ${file.name}.`);
+  };
+
+  return (
+    <div className="swatch-file-import">
+      <p className="csv-hint">
+        Adobe Swatch Exchange (.ase), GIMP / Inkscape (.gpl) and Photoshop
+        (.aco) files are supported. Their colors are added as locked base colors.
+      </p>
+      <input
+        type="file"
+        accept=".ase,.gpl,.aco"
+        className="image-import-file"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+      {message && <p className="csv-hint swatch-file-message">{message}</p>}
+      {error && <p className="csv-error">{error}</p>}
+    </div>
+  );
+}
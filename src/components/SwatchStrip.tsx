@@ -1,14 +1,22 @@
 import { useMemo } from "react";
 import chroma from "chroma-js";
 import { toHex, toLab } from "../engine/parser";
+import type { GamutAdjustment } from "../engine/gamut";
+import { buildRamp } from "../engine/ramps";
 
 export interface SwatchItem {
   color: chroma.Color;
   locked: boolean;
+  /** Set when generation had to pull the color into sRGB */
+  gamut?: GamutAdjustment | null;
+  /** Added by the anchor policy rather than generated */
+  anchor?: boolean;
 }
 
 interface SwatchStripProps {
   swatches: SwatchItem[];
+  /** Show each color's 50–900 tint and shade ramp under its hex */
+  showRamps?: boolean;
 }
 
 /**
@@ -25,7 +33,7 @@ function sortByLightness(swatches: SwatchItem[]): SwatchItem[] {
   });
 }
 
-export function SwatchStrip({ swatches }: SwatchStripProps) {
+export function SwatchStrip({ swatches, showRamps = false }: SwatchStripProps) {
   const sorted = useMemo(() => sortByLightness(swatches), [swatches]);
 
   if (sorted.length === 0) {
@@ -45,7 +53,7 @@ export function SwatchStrip({ swatches }: SwatchStripProps) {
           chroma.contrast(swatch.color, "white") > 3 ? "#fff" : "#222";
 
         return (
-          <div key={i} className="swatch-card">
+          <div key={i} className={`swatch-card ${swatch.anchor ? "swatch-anchor" : ""}`}>
             <div
               className="swatch-color"
               style={{ backgroundColor: hex }}
@@ -55,10 +63,40 @@ export function SwatchStrip({ swatches }: SwatchStripProps) {
                   🔒
                 </span>
               )}
+              {swatch.anchor && (
+                <span
+                  className="swatch-anchor-badge"
+                  style={{ color: textColor }}
+                  title="Added by the anchor policy, not part of the generated palette"
+                >
+                  anchor
+                </span>
+              )}
+              {swatch.gamut && (
+                <span
+                  className="swatch-gamut-badge"
+                  style={{ color: textColor }}
+                  title={`Chroma reduced from ${swatch.gamut.requestedChroma.toFixed(1)} to ${swatch.gamut.mappedChroma.toFixed(1)} to fit sRGB`}
+                >
+                  ◐ −{swatch.gamut.chromaLoss.toFixed(0)}C
+                </span>
+              )}
             </div>
             <div className="swatch-info">
               <span className="swatch-hex">{hex}</span>
               <span className="swatch-lab">LAB: {lab}</span>
+              {showRamps && (
+                <div className="swatch-ramp">
+                  {buildRamp(swatch.color).map((s) => (
+                    <div
+                      key={s.step}
+                      className={`swatch-ramp-step ${s.isBase ? "swatch-ramp-base" : ""}`}
+                      style={{ backgroundColor: toHex(s.color) }}
+                      title={`${s.step} · ${toHex(s.color).toUpperCase()}${s.gamut ? " · chroma reduced to fit sRGB" : ""}`}
+                    />
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         );
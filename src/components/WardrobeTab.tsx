@@ -6,22 +6,32 @@ import type { WardrobeCategory } from "../engine/wardrobeCatalog";
 import type { RoomItem } from "../engine/roomTemplates";
 import { autoFillWardrobe } from "../engine/wardrobeAssigner";
 import {
-  computeHarmonyScore,
-  itemScoreDelta,
+  computeHarmonyBreakdown,
+  computeItemDeltas,
   FILL_LABELS,
   FILL_DESCRIPTIONS,
 } from "../engine/roomAssigner";
 import type { FillAlgorithm } from "../engine/roomAssigner";
+import type { WorkingSpace } from "../engine/colorSpace";
+import { applyAnchors } from "../engine/anchors";
+import type { AnchorSettings } from "../engine/anchors";
+import type { PaletteRecipe } from "../engine/recipe";
 import { RoomItemRow } from "./RoomItemRow";
+import { HarmonyBreakdownPanel } from "./HarmonyBreakdownPanel";
+import { ExportMenu } from "./ExportMenu";
+import { AnchorPolicySelect } from "./AnchorPolicySelect";
 
 interface Suggestion {
   colors: chroma.Color[];
   pinned: boolean;
+  recipe?: PaletteRecipe;
 }
 
 interface WardrobeTabProps {
   pinnedSuggestions: Suggestion[];
   baseColors: chroma.Color[];
+  /** Scores are recomputed when the working space changes */
+  workingSpace: WorkingSpace;
 }
 
 let nextItemId = 5000;
@@ -42,13 +52,14 @@ function instantiateOutfit(templateIdx: number): RoomItem[] {
   });
 }
 
-export function WardrobeTab({ pinnedSuggestions, baseColors }: WardrobeTabProps) {
+export function WardrobeTab({ pinnedSuggestions, baseColors, workingSpace }: WardrobeTabProps) {
   const [outfitItems, setOutfitItems] = useState<RoomItem[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
   const [selectedPaletteIdx, setSelectedPaletteIdx] = useState<number>(-1);
   const [fillAlgorithm, setFillAlgorithm] = useState<FillAlgorithm>("surface-area");
   const [manuallyAssigned, setManuallyAssigned] = useState<Set<number>>(new Set());
   const [showCatalog, setShowCatalog] = useState(false);
+  const [anchors, setAnchors] = useState<AnchorSettings>({ policy: "wardrobe", custom: [] });
 
   useEffect(() => {
     if (selectedPaletteIdx === -1 && pinnedSuggestions.length > 0) {
@@ -104,11 +115,13 @@ export function WardrobeTab({ pinnedSuggestions, baseColors }: WardrobeTabProps)
 
   const activePalette: chroma.Color[] = useMemo(() => {
     const colors = [...baseColors];
-    if (selectedPaletteIdx >= 0 && selectedPaletteIdx < pinnedSuggestions.length) {
-      colors.push(...pinnedSuggestions[selectedPaletteIdx].colors);
-    }
-    return colors;
-  }, [baseColors, pinnedSuggestions, selectedPaletteIdx]);
+    const suggestion =
+      selectedPaletteIdx >= 0 && selectedPaletteIdx < pinnedSuggestions.length
+        ? pinnedSuggestions[selectedPaletteIdx]
+        : null;
+    if (suggestion) colors.push(...suggestion.colors);
+    return applyAnchors(colors, anchors, suggestion?.recipe?.constraints).colors;
+  }, [baseColors, pinnedSuggestions, selectedPaletteIdx, anchors]);
 
   const handleAutoFill = () => {
     if (activePalette.length === 0) return;
@@ -139,32 +152,27 @@ export function WardrobeTab({ pinnedSuggestions, baseColors }: WardrobeTabProps)
     [assignedItems]
   );
 
-  const harmonyScore = useMemo(
-    () => computeHarmonyScore(assignedColors, fillAlgorithm, activePalette, assignedWeights),
-    [assignedColors, fillAlgorithm, activePalette, assignedWeights]
+  const harmonyBreakdown = useMemo(
+    () => computeHarmonyBreakdown(assignedColors, fillAlgorithm, activePalette, assignedWeights, workingSpace),
+    [assignedColors, fillAlgorithm, activePalette, assignedWeights, workingSpace]
   );
+  const harmonyScore = harmonyBreakdown.score;
 
   const itemDeltas = useMemo(() => {
+    // One prepared score for the whole room; each delta only drops
+    // a single item from it.
+    const deltas = computeItemDeltas(
+      assignedColors, fillAlgorithm, activePalette, assignedWeights, workingSpace
+    );
     const map = new Map<number, number | null>();
+    assignedItems.forEach((item, i) => {
+      map.set(item.id, assignedColors.length < 2 ? null : deltas[i]);
+    });
     for (const item of outfitItems) {
-      if (item.color === null || assignedColors.length < 2) {
-        map.set(item.id, null);
-      } else {
-        map.set(
-          item.id,
-          itemScoreDelta(
-            item.color,
-            assignedColors,
-            fillAlgorithm,
-            activePalette,
-            assignedWeights,
-            item.weight
-          )
-        );
-      }
+      if (!map.has(item.id)) map.set(item.id, null);
     }
     return map;
-  }, [outfitItems, assignedColors, fillAlgorithm, activePalette, assignedWeights]);
+  }, [outfitItems, assignedItems, assignedColors, fillAlgorithm, activePalette, assignedWeights, workingSpace]);
 
   const allDeltas = Array.from(itemDeltas.values()).filter(
     (d): d is number => d !== null
@@ -234,20 +242,28 @@ export function WardrobeTab({ pinnedSuggestions, baseColors }: WardrobeTabProps)
               ))}
             </select>
           </div>
+
+          <AnchorPolicySelect id="outfit-anchors" settings={anchors} onChange={setAnchors} />
         </div>
       </section>
 
       {assignedCount >= 2 && (
-        <div className="harmony-score-bar">
-          <div className="harmony-score-label">Outfit Harmony</div>
-          <div className="harmony-score-track">
-            <div
-              className="harmony-score-fill"
-              style={{ width: `${harmonyScore}%` }}
-            />
+        <>
+          <div className="harmony-score-bar">
+            <div className="harmony-score-label">Outfit Harmony</div>
+            <div className="harmony-score-track">
+              <div
+                className="harmony-score-fill"
+                style={{ width: `${harmonyScore}%` }}
+              />
+            </div>
+            <div className="harmony-score-value">{harmonyScore}</div>
           </div>
-          <div className="harmony-score-value">{harmonyScore}</div>
-        </div>
+          <HarmonyBreakdownPanel
+            breakdown={harmonyBreakdown}
+            itemNames={assignedItems.map((item) => item.name)}
+          />
+        </>
       )}
 
       {(outfitItems.length > 0 || selectedTemplate !== "") && (
@@ -255,6 +271,12 @@ export function WardrobeTab({ pinnedSuggestions, baseColors }: WardrobeTabProps)
           <div className="section-header">
             <h2>Outfit</h2>
             <div className="section-header-actions">
+              {assignedCount > 0 && (
+                <ExportMenu
+                  title={OUTFIT_TEMPLATES[Number(selectedTemplate)]?.name ?? "Custom Outfit"}
+                  swatches={assignedItems.map((item) => ({ name: item.name, color: item.color!, weight: item.weight }))}
+                />
+              )}
               {assignedCount > 0 && (
                 <button className="btn-clear" onClick={handleClearAssignments}>
                   Clear Colors
@@ -0,0 +1,164 @@
+import chroma from "chroma-js";
+import { DEFAULT_CONSTRAINTS, satisfiesConstraints } from "./harmonies";
+import type { GenerationConstraints } from "./harmonies";
+import { mapToGamut } from "./gamut";
+import { toLCH, colorDistance } from "./colorSpace";
+
+/**
+ * Anchor policies.
+ *
+ * A generated palette is rarely usable on its own: a room needs a dark
+ * floor and light walls, an outfit needs denim and a dark neutral. An
+ * anchor policy names the colors a domain expects and adds the ones a
+ * palette lacks. Palettes are stored without anchors; each tab applies
+ * its own policy, and the result marks which colors were added so the
+ * UI can tell them apart from the palette's own.
+ */
+
+export type AnchorPolicy = "interior" | "wardrobe" | "none" | "custom";
+
+export const ANCHOR_POLICY_LABELS: Record<AnchorPolicy, string> = {
+  interior: "Interior",
+  wardrobe: "Wardrobe",
+  none: "None",
+  custom: "Custom",
+};
+
+export const ANCHOR_POLICY_DESCRIPTIONS: Record<AnchorPolicy, string> = {
+  interior: "A near-neutral dark and two light neutrals, tinted with the palette's hue",
+  wardrobe: "Navy, charcoal, camel and denim",
+  none: "Use the palette exactly as generated",
+  custom: "Your own anchor colors",
+};
+
+export interface AnchorSettings {
+  policy: AnchorPolicy;
+  /** Hex colors used by the custom policy */
+  custom: string[];
+}
+
+export interface AnchoredPalette {
+  colors: chroma.Color[];
+  /** True where the color was added by the policy, aligned with `colors` */
+  anchored: boolean[];
+}
+
+/** Anything this close to an existing color already covers the anchor */
+const CUSTOM_DUPLICATE_DELTA_E = 3;
+
+/** Wardrobe staples count as present if the palette has something this close */
+const WARDROBE_COVER_DELTA_E = 10;
+
+const WARDROBE_ANCHORS: { name: string; hex: string }[] = [
+  { name: "Navy", hex: "#1f2a44" },
+  { name: "Charcoal", hex: "#36454f" },
+  { name: "Camel", hex: "#c19a6b" },
+  { name: "Denim", hex: "#3b5b92" },
+];
+
+function clampL(l: number, constraints: GenerationConstraints): number {
+  return Math.max(constraints.minL, Math.min(constraints.maxL, l));
+}
+
+/**
+ * Every usable interior palette needs anchors: a near-neutral dark
+ * (for floors, wood) and a near-neutral light (for walls, trim).
+ * If missing, add them — derived from the palette's hue but desaturated.
+ * Anchor lightness is clamped to the constraint's lightness range.
+ */
+function interiorAnchors(
+  colors: chroma.Color[],
+  constraints: GenerationConstraints
+): chroma.Color[] {
+  if (colors.length < 2) return [];
+
+  const added: chroma.Color[] = [];
+
+  // Find the palette's dominant hue (from the most chromatic color)
+  let maxC = 0, dominantH = 0;
+  for (const c of colors) {
+    const [, C, H] = toLCH(c);
+    if (C > maxC) { maxC = C; dominantH = H; }
+  }
+
+  // Check for neutral dark (L < 30, C < 12)
+  const hasNeutralDark = colors.some((c) => {
+    const [L, C] = toLCH(c);
+    return L < 30 && C < 12;
+  });
+  if (!hasNeutralDark) {
+    added.push(mapToGamut(clampL(20, constraints), 5, dominantH));
+  }
+
+  // Need at least two light neutrals (for walls + doors/drapes)
+  const lightNeutrals = [...colors, ...added].filter((c) => {
+    const [L, C] = toLCH(c);
+    return L > 80 && C < 12;
+  });
+  if (lightNeutrals.length < 1) {
+    added.push(mapToGamut(clampL(92, constraints), 3, dominantH));
+  }
+  if (lightNeutrals.length < 2) {
+    added.push(mapToGamut(clampL(85, constraints), 2, dominantH));
+  }
+
+  return added;
+}
+
+/**
+ * Wardrobe staples the palette doesn't already cover. Staples that
+ * break the generation constraints (no blues, say) are left out.
+ */
+function wardrobeAnchors(
+  colors: chroma.Color[],
+  constraints: GenerationConstraints
+): chroma.Color[] {
+  return WARDROBE_ANCHORS
+    .map((a) => chroma(a.hex))
+    .filter((anchor) => satisfiesConstraints(anchor, constraints))
+    .filter((anchor) =>
+      colors.every((c) => colorDistance(c, anchor) >= WARDROBE_COVER_DELTA_E)
+    );
+}
+
+function customAnchors(colors: chroma.Color[], custom: string[]): chroma.Color[] {
+  const added: chroma.Color[] = [];
+  for (const hex of custom) {
+    if (!chroma.valid(hex)) continue;
+    const anchor = chroma(hex);
+    const present = [...colors, ...added].some(
+      (c) => colorDistance(c, anchor) < CUSTOM_DUPLICATE_DELTA_E
+    );
+    if (!present) added.push(anchor);
+  }
+  return added;
+}
+
+/**
+ * Append the anchors a policy calls for. The palette's own colors come
+ * first and are never changed.
+ */
+export function applyAnchors(
+  colors: chroma.Color[],
+  settings: AnchorSettings,
+  constraints: GenerationConstraints = DEFAULT_CONSTRAINTS
+): AnchoredPalette {
+  let added: chroma.Color[];
+  switch (settings.policy) {
+    case "interior":
+      added = interiorAnchors(colors, constraints);
+      break;
+    case "wardrobe":
+      added = wardrobeAnchors(colors, constraints);
+      break;
+    case "custom":
+      added = customAnchors(colors, settings.custom);
+      break;
+    default:
+      added = [];
+  }
+  return {
+    colors: [...colors, ...added],
+    anchored: [...colors.map(() => false), ...added.map(() => true)],
+  };
+}
@@ -0,0 +1,105 @@
+import chroma from "chroma-js";
+
+/**
+ * Working color space for generation and scoring.
+ *
+ * CIELAB is the historical default and every threshold in the engine
+ * was tuned against it. OKLab is more uniform in hue — CIELAB bends
+ * blues toward purple as chroma rises — so it is offered as an
+ * alternative. OKLab coordinates are rescaled to CIELAB-like magnitudes
+ * (L 0–100, chroma roughly 0–130) so the same thresholds keep their
+ * meaning in either space.
+ */
+
+export type WorkingSpace = "lab" | "oklab";
+
+export const WORKING_SPACE_LABELS: Record<WorkingSpace, string> = {
+  lab: "CIELAB / LCH",
+  oklab: "OKLab / OKLCH",
+};
+
+/** OKLab L is 0–1 */
+const OK_L_SCALE = 100;
+/** Median CIELAB chroma ÷ OKLCH chroma over sRGB */
+const OK_C_SCALE = 380;
+
+let workingSpace: WorkingSpace = "lab";
+
+export function getWorkingSpace(): WorkingSpace {
+  return workingSpace;
+}
+
+export function setWorkingSpace(space: WorkingSpace): void {
+  workingSpace = space;
+}
+
+export function isWorkingSpace(value: unknown): value is WorkingSpace {
+  return value === "lab" || value === "oklab";
+}
+
+/** [L, C, H] in the working space, on the CIELAB-like scale */
+export function toLCH(
+  color: chroma.Color,
+  space: WorkingSpace = workingSpace
+): [number, number, number] {
+  if (space === "oklab") {
+    const [l, c, h] = color.oklch();
+    return [l * OK_L_SCALE, c * OK_C_SCALE, h || 0];
+  }
+  const [l, c, h] = color.lch();
+  return [l, c, h || 0];
+}
+
+export function fromLCH(
+  l: number,
+  c: number,
+  h: number,
+  space: WorkingSpace = workingSpace
+): chroma.Color {
+  if (space === "oklab") {
+    return chroma.oklch(l / OK_L_SCALE, c / OK_C_SCALE, h);
+  }
+  return chroma.lch(l, c, h);
+}
+
+/** [L, a, b] in the working space, on the CIELAB-like scale */
+export function toLab(
+  color: chroma.Color,
+  space: WorkingSpace = workingSpace
+): [number, number, number] {
+  if (space === "oklab") {
+    const [l, a, b] = color.oklab();
+    return [l * OK_L_SCALE, a * OK_C_SCALE, b * OK_C_SCALE];
+  }
+  const [l, a, b] = color.lab();
+  return [l, a, b];
+}
+
+export function fromLab(
+  l: number,
+  a: number,
+  b: number,
+  space: WorkingSpace = workingSpace
+): chroma.Color {
+  if (space === "oklab") {
+    return chroma.oklab(l / OK_L_SCALE, a / OK_C_SCALE, b / OK_C_SCALE);
+  }
+  return chroma.lab(l, a, b);
+}
+
+/**
+ * Color difference in the working space: CIEDE2000 for CIELAB, and
+ * Euclidean ΔE_OK × 100 for OKLab, which lands in the same range.
+ */
+export function colorDistance(
+  a: chroma.Color,
+  b: chroma.Color,
+  space: WorkingSpace = workingSpace
+): number {
+  if (space === "oklab") {
+    const [l1, a1, b1] = a.oklab();
+    const [l2, a2, b2] = b.oklab();
+    return Math.hypot(l1 - l2, a1 - a2, b1 - b2) * 100;
+  }
+  return chroma.deltaE(a, b);
+}
@@ -0,0 +1,87 @@
+import chroma from "chroma-js";
+import { fromLCH, getWorkingSpace } from "./colorSpace";
+import type { WorkingSpace } from "./colorSpace";
+
+/**
+ * Gamut mapping for generated colors.
+ *
+ * LCH math happily produces colors no screen can show. chroma-js clips
+ * those channel by channel when converting to RGB, which shifts hue and
+ * lightness along with chroma — the hex no longer matches the LCH the
+ * generator asked for. Here out-of-gamut colors are instead pulled into
+ * sRGB by reducing chroma alone, at constant lightness and hue, so the
+ * color keeps its identity and just gets a little less vivid.
+ */
+
+export interface GamutAdjustment {
+  /** Chroma the generator asked for, in working-space units */
+  requestedChroma: number;
+  /** Largest chroma at the same L and H that fits in sRGB */
+  mappedChroma: number;
+  /** requestedChroma − mappedChroma */
+  chromaLoss: number;
+}
+
+/** Chroma reductions smaller than this aren't worth reporting */
+const MIN_REPORTED_LOSS = 0.5;
+
+/** Half an 8-bit step: anything closer rounds to a valid channel */
+const CHANNEL_TOLERANCE = 0.5;
+
+/**
+ * Mapped colors remember what was asked of them. Keyed by the color
+ * object itself, so the record travels with the color through the
+ * generators without changing their signatures.
+ */
+const adjustments = new WeakMap<chroma.Color, GamutAdjustment>();
+
+export function isOutOfGamut(color: chroma.Color): boolean {
+  const [r, g, b] = color._rgb._unclipped;
+  return [r, g, b].some(
+    (v) => v < -CHANNEL_TOLERANCE || v > 255 + CHANNEL_TOLERANCE
+  );
+}
+
+/**
+ * Build an LCH color in the working space (or `space`) that is
+ * guaranteed to be displayable. If the requested color is out of sRGB,
+ * chroma is binary-searched down to the gamut boundary and the
+ * reduction is recorded.
+ */
+export function mapToGamut(
+  l: number,
+  c: number,
+  h: number,
+  space: WorkingSpace = getWorkingSpace()
+): chroma.Color {
+  const L = Math.max(0, Math.min(100, l));
+  const C = Math.max(0, c);
+  const direct = fromLCH(L, C, h, space);
+  if (!isOutOfGamut(direct)) return direct;
+
+  let lo = 0;
+  let hi = C;
+  for (let i = 0; i < 16; i++) {
+    const mid = (lo + hi) / 2;
+    if (isOutOfGamut(fromLCH(L, mid, h, space))) hi = mid;
+    else lo = mid;
+  }
+
+  const mapped = fromLCH(L, lo, h, space);
+  if (C - lo >= MIN_REPORTED_LOSS) {
+    adjustments.set(mapped, {
+      requestedChroma: C,
+      mappedChroma: lo,
+      chromaLoss: C - lo,
+    });
+  }
+  return mapped;
+}
+
+/**
+ * The gamut adjustment recorded for a color made by mapToGamut, or
+ * null if it was displayable as requested.
+ */
+export function gamutAdjustmentOf(color: chroma.Color): GamutAdjustment | null {
+  return adjustments.get(color) ?? null;
+}
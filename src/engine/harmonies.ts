@@ -1,10 +1,16 @@
 import chroma from "chroma-js";
+import { mapToGamut, gamutAdjustmentOf, isOutOfGamut } from "./gamut";
+import { getWorkingSpace, toLCH, fromLCH, fromLab, colorDistance } from "./colorSpace";
+import type { GamutAdjustment } from "./gamut";
 
 export type HarmonyMode =
   | "complementary"
   | "analogous"
   | "triadic"
   | "split-complementary"
+  | "tetradic"
+  | "square"
+  | "monochromatic"
   | "delta-e-smart";
 
 export const HARMONY_LABELS: Record<HarmonyMode, string> = {
@@ -12,10 +18,178 @@ export const HARMONY_LABELS: Record<HarmonyMode, string> = {
   analogous: "Analogous",
   triadic: "Triadic",
   "split-complementary": "Split-Complementary",
+  tetradic: "Tetradic",
+  square: "Square",
+  monochromatic: "Monochromatic",
   "delta-e-smart": "Delta-E Smart",
 };
 
-function mulberry32(seed: number) {
+// ─── Constraints ──────────────────────────────────────────────────
+
+export type TemperatureBias = "none" | "warm" | "cool";
+
+export const TEMPERATURE_BIAS_LABELS: Record<TemperatureBias, string> = {
+  none: "No bias",
+  warm: "Lean warm",
+  cool: "Lean cool",
+};
+
+/**
+ * Hue arc in CIELAB LCH degrees, running clockwise from `from` to `to`.
+ * Ranges stay in LCH whatever the working space, so "no greens" means
+ * the same colors in either space.
+ */
+export interface HueRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Limits every generator respects. Locked colors are never changed;
+ * only the colors generated around them are held to these.
+ */
+export interface GenerationConstraints {
+  minL: number;
+  maxL: number;
+  /** Chroma ceiling, working-space units */
+  maxChroma: number;
+  /** Hue arcs generated colors stay out of */
+  excludedHues: HueRange[];
+  /** Pulls generated hues toward warm or cool families */
+  bias: TemperatureBias;
+}
+
+export const DEFAULT_CONSTRAINTS: GenerationConstraints = {
+  minL: 15,
+  maxL: 97,
+  maxChroma: 55,
+  excludedHues: [],
+  bias: "none",
+};
+
+/** Whether the user has left every constraint control untouched */
+export function isDefaultConstraints(c: GenerationConstraints): boolean {
+  return (
+    c.minL === DEFAULT_CONSTRAINTS.minL &&
+    c.maxL === DEFAULT_CONSTRAINTS.maxL &&
+    c.maxChroma === DEFAULT_CONSTRAINTS.maxChroma &&
+    c.excludedHues.length === 0 &&
+    c.bias === DEFAULT_CONSTRAINTS.bias
+  );
+}
+
+/**
+ * Named hue families offered as exclusions in the UI. Pink wraps
+ * around 0°.
+ */
+export const HUE_FAMILIES: { label: string; range: HueRange }[] = [
+  { label: "Reds", range: { from: 10, to: 45 } },
+  { label: "Oranges", range: { from: 45, to: 75 } },
+  { label: "Yellows", range: { from: 75, to: 110 } },
+  { label: "Greens", range: { from: 110, to: 170 } },
+  { label: "Teals", range: { from: 170, to: 235 } },
+  { label: "Blues", range: { from: 235, to: 305 } },
+  { label: "Purples", range: { from: 305, to: 340 } },
+  { label: "Pinks", range: { from: 340, to: 10 } },
+];
+
+/** Hue each bias pulls toward (LCH degrees) */
+const BIAS_TARGETS: Record<Exclude<TemperatureBias, "none">, number> = {
+  warm: 50,
+  cool: 230,
+};
+
+/** Fraction of the way a biased hue moves toward its target */
+const BIAS_STRENGTH = 0.4;
+
+/** Picked colors opposite the bias score up to (1 + this)× worse */
+const BIAS_PENALTY = 1.5;
+
+/** Below this chroma a color reads as neutral and hue limits don't apply */
+const NEUTRAL_CHROMA = 8;
+
+/** Step used to walk a hue out of an excluded arc */
+const HUE_STEP = 2;
+
+function inHueRange(h: number, range: HueRange): boolean {
+  const span = (range.to - range.from + 360) % 360;
+  return (h - range.from + 360) % 360 < span;
+}
+
+function isExcludedHue(h: number, constraints: GenerationConstraints): boolean {
+  return constraints.excludedHues.some((r) => inHueRange(h, r));
+}
+
+/**
+ * LCH hue of a working-space hue. Probed at a low, always-displayable
+ * chroma so clipping can't skew it.
+ */
+function lchHue(h: number): number {
+  if (getWorkingSpace() === "lab") return h;
+  return toLCH(fromLCH(60, 10, h), "lab")[2];
+}
+
+/** Signed shortest turn from `from` to `to`, in degrees */
+function hueTurn(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+/**
+ * Apply the temperature bias, then walk the working-space hue out of
+ * any excluded arc toward whichever edge is closer. Returns null when
+ * every direction is blocked, so the caller can fall back to a neutral.
+ */
+function constrainHue(h: number, constraints: GenerationConstraints): number | null {
+  let hue = h;
+  if (constraints.bias !== "none") {
+    const turn = hueTurn(lchHue(hue), BIAS_TARGETS[constraints.bias]);
+    hue = (hue + turn * BIAS_STRENGTH + 360) % 360;
+  }
+
+  let lch = lchHue(hue);
+  const blocking = constraints.excludedHues.find((r) => inHueRange(lch, r));
+  if (!blocking) return hue;
+
+  const toStart = (lch - blocking.from + 360) % 360;
+  const toEnd = (blocking.to - lch + 360) % 360;
+  const direction = toStart <= toEnd ? -1 : 1;
+  for (let step = 0; step < 360 / HUE_STEP; step++) {
+    hue = (hue + direction * HUE_STEP + 360) % 360;
+    lch = lchHue(hue);
+    if (!isExcludedHue(lch, constraints)) return hue;
+  }
+  return null;
+}
+
+/**
+ * Score multiplier for picked (not built) colors: 1 for hues on the
+ * biased side, rising for hues away from it. Neutrals are exempt.
+ */
+function biasPenalty(color: chroma.Color, constraints: GenerationConstraints): number {
+  if (constraints.bias === "none") return 1;
+  const [, C] = toLCH(color);
+  if (C < NEUTRAL_CHROMA) return 1;
+  const gap = Math.abs(hueTurn(toLCH(color, "lab")[2], BIAS_TARGETS[constraints.bias]));
+  return 1 + BIAS_PENALTY * (gap / 180);
+}
+
+/**
+ * Whether a finished color satisfies the constraints. Used to filter
+ * candidate grids and fixed anchors, where colors are picked rather
+ * than built.
+ */
+export function satisfiesConstraints(color: chroma.Color, constraints: GenerationConstraints): boolean {
+  const [L, C] = toLCH(color);
+  if (L < constraints.minL || L > constraints.maxL) return false;
+  if (C > constraints.maxChroma) return false;
+  return C < NEUTRAL_CHROMA || !isExcludedHue(toLCH(color, "lab")[2], constraints);
+}
+
+/**
+ * Small seeded PRNG. Every generator and search in the engine draws from
+ * this so a given seed always reproduces the same result.
+ */
+export function mulberry32(seed: number) {
   return () => {
     seed |= 0;
     seed = (seed + 0x6d2b79f5) | 0;
@@ -34,7 +208,8 @@ export function generateHarmony(
   mode: HarmonyMode,
   count: number,
   variation: number = 0,
-  batchSeed: number = 0
+  batchSeed: number = 0,
+  constraints: GenerationConstraints = DEFAULT_CONSTRAINTS
 ): chroma.Color[] {
   if (count <= 0) return [];
 
@@ -45,68 +220,64 @@ export function generateHarmony(
     const baseHue = rng() * 360;
     const baseL = 40 + rng() * 30;
     const baseC = 15 + rng() * 40;
-    const base = chroma.lch(baseL, baseC, baseHue);
-    return generateFromBase([base], mode, count, rng);
+    const base = constrainedLCH(baseL, baseC, baseHue, constraints);
+    return generateFromBase([base], mode, count, rng, constraints);
   }
 
-  return generateFromBase(lockedColors, mode, count, rng);
+  return generateFromBase(lockedColors, mode, count, rng, constraints);
 }
 
 function generateFromBase(
   bases: chroma.Color[],
   mode: HarmonyMode,
   count: number,
-  rng: () => number
+  rng: () => number,
+  constraints: GenerationConstraints
 ): chroma.Color[] {
   switch (mode) {
     case "complementary":
-      return genComplementary(bases, count, rng);
+      return genComplementary(bases, count, rng, constraints);
     case "analogous":
-      return genAnalogous(bases, count, rng);
+      return genAnalogous(bases, count, rng, constraints);
     case "triadic":
-      return genTriadic(bases, count, rng);
+      return genTriadic(bases, count, rng, constraints);
     case "split-complementary":
-      return genSplitComplementary(bases, count, rng);
+      return genSplitComplementary(bases, count, rng, constraints);
+    case "tetradic":
+      return genHueOffsets(bases, count, rng, constraints, [0, 60, 180, 240]);
+    case "square":
+      return genHueOffsets(bases, count, rng, constraints, [0, 90, 180, 270]);
+    case "monochromatic":
+      return genMonochromatic(bases, count, rng, constraints);
     case "delta-e-smart":
-      return genDeltaESmart(bases, count, rng);
+      return genDeltaESmart(bases, count, rng, constraints);
     default:
-      return genAnalogous(bases, count, rng);
+      return genAnalogous(bases, count, rng, constraints);
   }
 }
 
+export interface GeneratedPalette {
+  colors: chroma.Color[];
+  /** Per-color gamut mapping record; null where no chroma was lost */
+  gamut: (GamutAdjustment | null)[];
+}
+
 /**
- * Every usable interior palette needs anchors: a near-neutral dark
- * (for floors, wood) and a near-neutral light (for walls, trim).
- * If missing, add them — derived from the palette's hue but desaturated.
+ * One palette: the harmony for a single variation of a batch.
+ * generateMultiplePalettes() is this for variations 0..n-1, so any
+ * suggestion can be rebuilt from its seed and index. Anchors are not
+ * added here; each tab applies its own anchor policy (see anchors.ts).
  */
-function ensureAnchors(colors: chroma.Color[]): chroma.Color[] {
-  if (colors.length < 2) return colors;
-
-  const result = [...colors];
-
-  // Find the palette's dominant hue (from the most chromatic color)
-  let maxC = 0, dominantH = 0;
-  for (const c of result) {
-    const [, C, H] = c.lch();
-    if (C > maxC) { maxC = C; dominantH = H || 0; }
-  }
-
-  // Check for neutral dark (L < 30, C < 12)
-  const hasNeutralDark = result.some((c) => c.lab()[0] < 30 && c.lch()[1] < 12);
-  if (!hasNeutralDark) {
-    result.push(chroma.lch(20, 5, dominantH));
-  }
-
-  // Need at least two light neutrals (for walls + doors/drapes)
-  const lightNeutrals = result.filter((c) => c.lab()[0] > 80 && c.lch()[1] < 12);
-  if (lightNeutrals.length < 1) {
-    result.push(chroma.lch(92, 3, dominantH));
-  }
-  if (lightNeutrals.length < 2) {
-    result.push(chroma.lch(85, 2, dominantH));
-  }
-
-  return result;
+export function generatePalette(
+  lockedColors: chroma.Color[],
+  mode: HarmonyMode,
+  count: number,
+  variation: number,
+  batchSeed: number,
+  constraints: GenerationConstraints = DEFAULT_CONSTRAINTS
+): GeneratedPalette {
+  const colors = generateHarmony(lockedColors, mode, count, variation, batchSeed, constraints);
+  return { colors, gamut: colors.map(gamutAdjustmentOf) };
 }
 
 export function generateMultiplePalettes(
@@ -114,35 +285,70 @@ export function generateMultiplePalettes(
   mode: HarmonyMode,
   count: number,
   numSuggestions: number,
-  batchSeed: number = 0
-): chroma.Color[][] {
-  const palettes: chroma.Color[][] = [];
+  batchSeed: number = 0,
+  constraints: GenerationConstraints = DEFAULT_CONSTRAINTS
+): GeneratedPalette[] {
+  const palettes: GeneratedPalette[] = [];
   for (let v = 0; v < numSuggestions; v++) {
-    const raw = generateHarmony(lockedColors, mode, count, v, batchSeed);
-    palettes.push(ensureAnchors(raw));
+    palettes.push(generatePalette(lockedColors, mode, count, v, batchSeed, constraints));
   }
   return palettes;
 }
 
 // ─── Utilities ────────────────────────────────────────────────────
 
+/**
+ * The chroma a color was meant to have. Gamut-mapped intermediates
+ * (a rotated hue that landed out of sRGB) carry their original request
+ * so later variation steps build on the intent, not the reduced value.
+ */
+function intendedChroma(color: chroma.Color): number {
+  return gamutAdjustmentOf(color)?.requestedChroma ?? toLCH(color)[1];
+}
+
 function rotateHue(color: chroma.Color, degrees: number): chroma.Color {
-  const [l, c, h] = color.lch();
-  const newHue = ((h || 0) + degrees + 360) % 360;
-  return chroma.lch(l, c, newHue);
+  const [l, , h] = toLCH(color);
+  const newHue = (h + degrees + 360) % 360;
+  return mapToGamut(l, intendedChroma(color), newHue);
+}
+
+function clampL(l: number, constraints: GenerationConstraints): number {
+  return Math.max(constraints.minL, Math.min(constraints.maxL, l));
+}
+
+/**
+ * Build a gamut-safe color from LCH held to the constraints. When
+ * every hue is excluded the color falls back to a near-neutral.
+ */
+function constrainedLCH(
+  l: number,
+  c: number,
+  h: number,
+  constraints: GenerationConstraints
+): chroma.Color {
+  let chromaC = Math.max(0, Math.min(constraints.maxChroma, c));
+  let hue = h;
+  if (chromaC >= NEUTRAL_CHROMA) {
+    const constrained = constrainHue(hue, constraints);
+    if (constrained === null) chromaC = Math.min(chromaC, NEUTRAL_CHROMA / 2);
+    else hue = constrained;
+  }
+  return mapToGamut(clampL(l, constraints), chromaC, hue);
 }
 
 function varyLCH(
   color: chroma.Color,
   dL: number,
   dC: number,
-  dH: number
+  dH: number,
+  constraints: GenerationConstraints
 ): chroma.Color {
-  const [l, c, h] = color.lch();
-  return chroma.lch(
-    Math.max(15, Math.min(97, l + dL)),
-    Math.max(0, Math.min(55, c + dC)),
-    ((h || 0) + dH + 360) % 360
+  const [l, , h] = toLCH(color);
+  return constrainedLCH(
+    l + dL,
+    intendedChroma(color) + dC,
+    (h + dH + 360) % 360,
+    constraints
   );
 }
 
@@ -151,7 +357,8 @@ function varyLCH(
 function genComplementary(
   bases: chroma.Color[],
   count: number,
-  rng: () => number
+  rng: () => number,
+  constraints: GenerationConstraints
 ): chroma.Color[] {
   const results: chroma.Color[] = [];
   const complements = bases.map((c) => rotateHue(c, 180));
@@ -164,7 +371,8 @@ function genComplementary(
         base,
         (rng() - 0.5) * 60,  // wide lightness range
         (rng() - 0.7) * 40,  // chroma: biased toward reducing saturation
-        (rng() - 0.5) * 30   // moderate hue jitter
+        (rng() - 0.5) * 30,  // moderate hue jitter
+        constraints
       )
     );
   }
@@ -174,7 +382,8 @@ function genComplementary(
 function genAnalogous(
   bases: chroma.Color[],
   count: number,
-  rng: () => number
+  rng: () => number,
+  constraints: GenerationConstraints
 ): chroma.Color[] {
   const results: chroma.Color[] = [];
 
@@ -203,7 +412,7 @@ function genAnalogous(
 
     const dH = (rng() - 0.5) * 60;
 
-    results.push(varyLCH(base, dL, dC, dH));
+    results.push(varyLCH(base, dL, dC, dH, constraints));
   }
   return results;
 }
@@ -211,7 +420,8 @@ function genAnalogous(
 function genTriadic(
   bases: chroma.Color[],
   count: number,
-  rng: () => number
+  rng: () => number,
+  constraints: GenerationConstraints
 ): chroma.Color[] {
   const results: chroma.Color[] = [];
   const offsets = [0, 120, 240];
@@ -224,7 +434,8 @@ function genTriadic(
         rotateHue(base, offset),
         (rng() - 0.5) * 60,
         (rng() - 0.7) * 40,
-        (rng() - 0.5) * 30  // jitter around the triadic points
+        (rng() - 0.5) * 30, // jitter around the triadic points
+        constraints
       )
     );
   }
@@ -234,7 +445,8 @@ function genTriadic(
 function genSplitComplementary(
   bases: chroma.Color[],
   count: number,
-  rng: () => number
+  rng: () => number,
+  constraints: GenerationConstraints
 ): chroma.Color[] {
   const results: chroma.Color[] = [];
   const offsets = [0, 150, 210];
@@ -247,31 +459,105 @@ function genSplitComplementary(
         rotateHue(base, offset),
         (rng() - 0.5) * 60,
         (rng() - 0.7) * 40,
-        (rng() - 0.5) * 30
+        (rng() - 0.5) * 30,
+        constraints
+      )
+    );
+  }
+  return results;
+}
+
+/**
+ * Shared shape of the rotation-based schemes: cycle through fixed hue
+ * offsets from the base, jittering lightness, chroma and hue per color.
+ * Tetradic uses a 60°/180°/240° rectangle, square uses even 90° steps.
+ */
+function genHueOffsets(
+  bases: chroma.Color[],
+  count: number,
+  rng: () => number,
+  constraints: GenerationConstraints,
+  offsets: number[]
+): chroma.Color[] {
+  const results: chroma.Color[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const base = bases[i % bases.length];
+    const offset = offsets[i % offsets.length];
+    results.push(
+      varyLCH(
+        rotateHue(base, offset),
+        (rng() - 0.5) * 60,
+        (rng() - 0.7) * 40,
+        (rng() - 0.5) * 20, // tighter jitter: four points crowd the wheel
+        constraints
       )
     );
   }
   return results;
 }
 
+/**
+ * One hue, spread across lightness. Colors walk from light tints down
+ * to dark shades; chroma peaks in the middle of the walk and falls off
+ * toward both ends, which gives the muted tones between. Hue only
+ * drifts a few degrees so the family stays recognisably one color.
+ * Only the first locked color sets the hue; cycling through every
+ * locked color would give a multi-hue palette.
+ */
+function genMonochromatic(
+  bases: chroma.Color[],
+  count: number,
+  rng: () => number,
+  constraints: GenerationConstraints
+): chroma.Color[] {
+  const results: chroma.Color[] = [];
+  const base = bases[0];
+  const [l, c] = toLCH(base);
+
+  for (let i = 0; i < count; i++) {
+    const position = count > 1 ? i / (count - 1) : 0.5; // 0 = lightest
+
+    const targetL = 92 - position * 70 + (rng() - 0.5) * 8;
+    const bell = 1 - Math.abs(position - 0.5) * 2; // 0 at ends, 1 mid
+    const targetC = c * (0.35 + 0.65 * bell) * (0.75 + rng() * 0.35);
+
+    results.push(
+      varyLCH(base, targetL - l, targetC - c, (rng() - 0.5) * 10, constraints)
+    );
+  }
+  return results;
+}
+
 function genDeltaESmart(
   bases: chroma.Color[],
   count: number,
-  rng: () => number
+  rng: () => number,
+  constraints: GenerationConstraints
 ): chroma.Color[] {
   const targetDist = 25 + rng() * 25;
   const candidates: { color: chroma.Color; score: number }[] = [];
+  // Untouched constraints pick from the same grid as before they existed,
+  // so seeds and recipes made without them reproduce
+  const filtered = !isDefaultConstraints(constraints);
+
+  // The grid tops out at L90; a range entirely above that still gets
+  // one row at its floor.
+  const lowL = constraints.minL;
+  const highL = Math.max(lowL, Math.min(constraints.maxL, 90));
 
-  for (let L = 15; L <= 90; L += 8) {
+  for (let L = lowL; L <= highL; L += 8) {
     for (let a = -60; a <= 60; a += 12) {
       for (let b = -60; b <= 60; b += 12) {
         try {
-          const c = chroma.lab(L, a, b);
+          const c = fromLab(L, a, b);
+          if (isOutOfGamut(c) || (filtered && !satisfiesConstraints(c, constraints))) continue;
           let score = 0;
           for (const bc of bases) {
-            const dist = chroma.deltaE(c, bc);
+            const dist = colorDistance(c, bc);
             score += (dist - targetDist) ** 2;
           }
+          score *= biasPenalty(c, constraints);
           score += rng() * 10; // noise per variation
           candidates.push({ color: c, score });
         } catch {
@@ -289,7 +575,7 @@ function genDeltaESmart(
   for (const candidate of candidates) {
     if (picked.length >= count) break;
     const ok = picked.every(
-      (p) => chroma.deltaE(candidate.color, p) >= minDist
+      (p) => colorDistance(candidate.color, p) >= minDist
     );
     if (ok) picked.push(candidate.color);
   }
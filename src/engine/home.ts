@@ -0,0 +1,300 @@
+import type chroma from "chroma-js";
+import type { RoomItem } from "./roomTemplates";
+import { computeHarmonyScore } from "./roomAssigner";
+import type { FillAlgorithm } from "./roomAssigner";
+import type { WorkingSpace } from "./colorSpace";
+import { getWorkingSpace } from "./colorSpace";
+import { roomColorComponents, withPattern } from "./patterns";
+
+/**
+ * Whole-home planning.
+ *
+ * A Home is several named rooms plus a record of which rooms open onto
+ * each other. Shared items — floors, doors, trim — are linked by name:
+ * giving one room's Floors a color gives every room's Floors that color,
+ * and a room that gains a shared item picks up the color the rest of
+ * the home already uses.
+ *
+ * Cohesion scores each room on its own and each pair of adjacent rooms
+ * as if seen together through the doorway, which is what open-plan
+ * spaces need to get right.
+ */
+
+export interface HomeRoom {
+  id: number;
+  name: string;
+  /** ROOM_TEMPLATES index as a string, "custom", or "" before choosing */
+  template: string;
+  items: RoomItem[];
+}
+
+export interface Home {
+  rooms: HomeRoom[];
+  /** Unordered pairs of room ids that open onto each other */
+  adjacency: [number, number][];
+  /** Item names linked across rooms, compared case-insensitively */
+  shared: string[];
+}
+
+/** Surfaces and trim that usually continue from room to room */
+export const DEFAULT_SHARED_ITEMS = [
+  "Floors",
+  "Ceiling",
+  "Doors",
+  "Baseboards",
+  "Crown Molding",
+  "Window Frames",
+];
+
+const key = (name: string) => name.trim().toLowerCase();
+
+export function createHome(firstRoom: HomeRoom): Home {
+  return { rooms: [firstRoom], adjacency: [], shared: [...DEFAULT_SHARED_ITEMS] };
+}
+
+// ─── Rooms & adjacency ───────────────────────────────────────────
+
+export function addRoom(home: Home, room: HomeRoom): Home {
+  return pullSharedColors({ ...home, rooms: [...home.rooms, room] }, room.id);
+}
+
+export function removeRoom(home: Home, roomId: number): Home {
+  return {
+    ...home,
+    rooms: home.rooms.filter((r) => r.id !== roomId),
+    adjacency: home.adjacency.filter(([a, b]) => a !== roomId && b !== roomId),
+  };
+}
+
+export function areAdjacent(home: Home, a: number, b: number): boolean {
+  return home.adjacency.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+}
+
+export function toggleAdjacency(home: Home, a: number, b: number): Home {
+  if (a === b) return home;
+  const adjacency = areAdjacent(home, a, b)
+    ? home.adjacency.filter(([x, y]) => !((x === a && y === b) || (x === b && y === a)))
+    : [...home.adjacency, [a, b] as [number, number]];
+  return { ...home, adjacency };
+}
+
+// ─── Shared items ────────────────────────────────────────────────
+
+export function isSharedItem(home: Home, name: string): boolean {
+  return home.shared.some((s) => key(s) === key(name));
+}
+
+/**
+ * Link or unlink an item name. Linking copies the first color found
+ * for it to every room, so the rooms agree from then on.
+ */
+export function toggleSharedItem(home: Home, name: string): Home {
+  if (isSharedItem(home, name)) {
+    return { ...home, shared: home.shared.filter((s) => key(s) !== key(name)) };
+  }
+  const linked = { ...home, shared: [...home.shared, name] };
+  const color = home.rooms
+    .flatMap((r) => r.items)
+    .find((item) => key(item.name) === key(name) && item.color)?.color;
+  return color ? setSharedColor(linked, name, color, null) : linked;
+}
+
+/** Item names that appear in more than one room — candidates for linking */
+export function repeatedItemNames(home: Home): string[] {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const room of home.rooms) {
+    const names = new Set(room.items.map((item) => key(item.name)));
+    for (const k of names) {
+      const name = room.items.find((item) => key(item.name) === k)!.name;
+      const entry = counts.get(k) ?? { name, count: 0 };
+      entry.count++;
+      counts.set(k, entry);
+    }
+  }
+  return [...counts.values()].filter((e) => e.count > 1).map((e) => e.name);
+}
+
+/** The color a shared item already has in some other room, if any */
+export function sharedColorElsewhere(
+  home: Home,
+  roomId: number,
+  name: string
+): chroma.Color | null {
+  if (!isSharedItem(home, name)) return null;
+  for (const room of home.rooms) {
+    if (room.id === roomId) continue;
+    const match = room.items.find((item) => key(item.name) === key(name) && item.color);
+    if (match) return match.color;
+  }
+  return null;
+}
+
+/** Set an item's main color, keeping a pattern's first color in step */
+function recolor(item: RoomItem, color: chroma.Color | null): RoomItem {
+  return item.pattern
+    ? withPattern(item, item.pattern.map((p, i) => (i === 0 ? { ...p, color } : p)))
+    : { ...item, color };
+}
+
+/** Give every room's item called `name` this color, except in `skipRoomId` */
+function setSharedColor(
+  home: Home,
+  name: string,
+  color: chroma.Color,
+  skipRoomId: number | null
+): Home {
+  return {
+    ...home,
+    rooms: home.rooms.map((room) =>
+      room.id === skipRoomId || !room.items.some((item) => key(item.name) === key(name))
+        ? room
+        : {
+          ...room,
+          items: room.items.map((item) =>
+            key(item.name) === key(name) ? recolor(item, color) : item
+          ),
+        }
+    ),
+  };
+}
+
+/** Fill a room's uncolored shared items from the rest of the home */
+function pullSharedColors(home: Home, roomId: number): Home {
+  return {
+    ...home,
+    rooms: home.rooms.map((room) =>
+      room.id !== roomId
+        ? room
+        : {
+          ...room,
+          items: room.items.map((item) =>
+            item.color ? item : recolor(item, sharedColorElsewhere(home, roomId, item.name))
+          ),
+        }
+    ),
+  };
+}
+
+/**
+ * Replace a room's fields. Shared items given a new color are pushed to
+ * the other rooms; clearing one never clears it elsewhere. Uncolored
+ * shared items (new to the room, or just cleared) take the color the
+ * home already uses.
+ */
+export function updateRoom(
+  home: Home,
+  roomId: number,
+  changes: Partial<Omit<HomeRoom, "id">>
+): Home {
+  const before = home.rooms.find((r) => r.id === roomId);
+  if (!before) return home;
+  let next: Home = {
+    ...home,
+    rooms: home.rooms.map((r) => (r.id === roomId ? { ...r, ...changes } : r)),
+  };
+  if (!changes.items) return next;
+
+  const previous = new Map(before.items.map((item) => [item.id, item]));
+  for (const item of changes.items) {
+    if (!isSharedItem(home, item.name)) continue;
+    const old = previous.get(item.id);
+    if (!old || key(old.name) !== key(item.name)) continue;
+    if (item.color && old.color?.hex() !== item.color.hex()) {
+      next = setSharedColor(next, item.name, item.color, roomId);
+    }
+  }
+  return pullSharedColors(next, roomId);
+}
+
+// ─── Cohesion ────────────────────────────────────────────────────
+
+export interface RoomCohesion {
+  roomId: number;
+  name: string;
+  /** Room harmony, or null with fewer than two colored items */
+  score: number | null;
+}
+
+export interface TransitionCohesion {
+  from: number;
+  to: number;
+  /** Harmony of both rooms' colors seen together */
+  score: number | null;
+  /** Linked items that carry across this doorway */
+  continuing: string[];
+}
+
+export interface HomeCohesion {
+  /** 0–100, or null until some room can be scored */
+  score: number | null;
+  rooms: RoomCohesion[];
+  transitions: TransitionCohesion[];
+}
+
+/** Share of the home score that comes from transitions, when there are any */
+const TRANSITION_SHARE = 0.4;
+
+function colored(items: RoomItem[]) {
+  const components = roomColorComponents(items);
+  return { colors: components.map((c) => c.color), weights: components.map((c) => c.weight) };
+}
+
+/**
+ * Whole-home cohesion: the rooms' own harmony, averaged by how much
+ * visual weight each room carries, blended with the harmony of every
+ * adjacent pair seen together.
+ */
+export function computeHomeCohesion(
+  home: Home,
+  palette: chroma.Color[],
+  algorithm: FillAlgorithm,
+  space: WorkingSpace = getWorkingSpace()
+): HomeCohesion {
+  const rooms: RoomCohesion[] = home.rooms.map((room) => {
+    const { colors, weights } = colored(room.items);
+    return {
+      roomId: room.id,
+      name: room.name,
+      score: colors.length >= 2 ? computeHarmonyScore(colors, algorithm, palette, weights, space) : null,
+    };
+  });
+
+  const byId = new Map(home.rooms.map((room) => [room.id, room]));
+  const transitions: TransitionCohesion[] = [];
+  for (const [from, to] of home.adjacency) {
+    const a = byId.get(from);
+    const b = byId.get(to);
+    if (!a || !b) continue;
+    const { colors, weights } = colored([...a.items, ...b.items]);
+    const continuing = a.items
+      .filter((item) => item.color && isSharedItem(home, item.name))
+      .filter((item) => b.items.some((other) => key(other.name) === key(item.name)))
+      .map((item) => item.name);
+    transitions.push({
+      from,
+      to,
+      score: colors.length >= 2 ? computeHarmonyScore(colors, algorithm, palette, weights, space) : null,
+      continuing,
+    });
+  }
+
+  let roomTotal = 0;
+  let roomWeight = 0;
+  home.rooms.forEach((room, i) => {
+    const score = rooms[i].score;
+    if (score === null) return;
+    const weight = colored(room.items).weights.reduce((s, w) => s + w, 0) || 1;
+    roomTotal += score * weight;
+    roomWeight += weight;
+  });
+  if (roomWeight === 0) return { score: null, rooms, transitions };
+
+  const roomScore = roomTotal / roomWeight;
+  const scored = transitions.filter((t) => t.score !== null);
+  const score =
+    scored.length === 0
+      ? roomScore
+      : roomScore * (1 - TRANSITION_SHARE) +
+        (scored.reduce((s, t) => s + t.score!, 0) / scored.length) * TRANSITION_SHARE;
+  return { score: Math.round(score), rooms, transitions };
+}
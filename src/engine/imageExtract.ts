@@ -0,0 +1,148 @@
+import chroma from "chroma-js";
+import { mulberry32 } from "./harmonies";
+
+/**
+ * Dominant colors of an image.
+ *
+ * Pixels are clustered with k-means in CIELAB, so clusters group what
+ * looks alike rather than what is numerically close in RGB. The image
+ * is subsampled to a few thousand pixels first — enough to find the
+ * dominant colors of a photo while staying instant in the browser.
+ * Centers are seeded with k-means++ from a fixed seed, so the same
+ * image always yields the same palette.
+ */
+
+export interface ExtractedColor {
+  color: chroma.Color;
+  /** Fraction of sampled pixels in this cluster (0–1) */
+  share: number;
+}
+
+export interface ExtractOptions {
+  /** Most pixels fed to k-means (default 4000) */
+  maxSamples?: number;
+  /** Lloyd iterations before giving up on convergence (default 24) */
+  maxIterations?: number;
+  /** Seed for k-means++ initialization (default 0) */
+  seed?: number;
+}
+
+/** Pixels more transparent than this are ignored */
+const MIN_ALPHA = 128;
+
+type Lab = [number, number, number];
+
+function distSq(a: Lab, b: Lab): number {
+  const dl = a[0] - b[0];
+  const da = a[1] - b[1];
+  const db = a[2] - b[2];
+  return dl * dl + da * da + db * db;
+}
+
+/**
+ * Evenly spaced opaque pixels from RGBA data, converted to Lab.
+ */
+function samplePixels(rgba: Uint8ClampedArray, maxSamples: number): Lab[] {
+  const pixelCount = Math.floor(rgba.length / 4);
+  const step = Math.max(1, Math.floor(pixelCount / maxSamples));
+  const samples: Lab[] = [];
+  for (let p = 0; p < pixelCount; p += step) {
+    const o = p * 4;
+    if (rgba[o + 3] < MIN_ALPHA) continue;
+    const [L, a, b] = chroma.rgb(rgba[o], rgba[o + 1], rgba[o + 2]).lab();
+    samples.push([L, a, b]);
+  }
+  return samples;
+}
+
+/**
+ * k-means++: the first center is a random sample, each next one is
+ * drawn with probability proportional to its squared distance from the
+ * nearest center already chosen.
+ */
+function seedCenters(samples: Lab[], k: number, rng: () => number): Lab[] {
+  const centers: Lab[] = [samples[Math.floor(rng() * samples.length)]];
+  const nearest = samples.map((s) => distSq(s, centers[0]));
+
+  while (centers.length < k) {
+    const total = nearest.reduce((s, d) => s + d, 0);
+    if (total === 0) break; // fewer distinct colors than k
+    let target = rng() * total;
+    let pick = 0;
+    for (; pick < samples.length - 1; pick++) {
+      target -= nearest[pick];
+      if (target <= 0) break;
+    }
+    const center = samples[pick];
+    centers.push(center);
+    for (let i = 0; i < samples.length; i++) {
+      nearest[i] = Math.min(nearest[i], distSq(samples[i], center));
+    }
+  }
+  return centers;
+}
+
+/**
+ * The `count` dominant colors of an image, largest cluster first.
+ * Takes raw RGBA bytes (as from a canvas ImageData). Returns fewer
+ * colors when the image has fewer distinct ones.
+ */
+export function extractPalette(
+  rgba: Uint8ClampedArray,
+  count: number,
+  options: ExtractOptions = {}
+): ExtractedColor[] {
+  const { maxSamples = 4000, maxIterations = 24, seed = 0 } = options;
+  const samples = samplePixels(rgba, maxSamples);
+  if (samples.length === 0 || count <= 0) return [];
+
+  const rng = mulberry32(seed);
+  let centers = seedCenters(samples, Math.min(count, samples.length), rng);
+  const assignment = new Int32Array(samples.length).fill(-1);
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let changed = false;
+    for (let i = 0; i < samples.length; i++) {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let c = 0; c < centers.length; c++) {
+        const d = distSq(samples[i], centers[c]);
+        if (d < bestDist) {
+          bestDist = d;
+          best = c;
+        }
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+
+    // Move each center to the mean of its members; empty clusters keep
+    // their old center and usually pick members up next round.
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (let i = 0; i < samples.length; i++) {
+      const s = sums[assignment[i]];
+      s[0] += samples[i][0];
+      s[1] += samples[i][1];
+      s[2] += samples[i][2];
+      s[3]++;
+    }
+    centers = centers.map((old, c) => {
+      const [l, a, b, n] = sums[c];
+      return n > 0 ? [l / n, a / n, b / n] : old;
+    });
+  }
+
+  const sizes = centers.map(() => 0);
+  for (let i = 0; i < samples.length; i++) sizes[assignment[i]]++;
+
+  return centers
+    .map((center, c) => ({
+      color: chroma.lab(center[0], center[1], center[2]),
+      share: sizes[c] / samples.length,
+    }))
+    .filter((e) => e.share > 0)
+    .sort((a, b) => b.share - a.share);
+}
@@ -12,6 +12,14 @@
 
 export type ItemRole = "background" | "ground" | "anchor" | "accent" | "neutral";
 
+export const ROLE_LABELS: Record<ItemRole, string> = {
+  background: "Background",
+  ground: "Ground",
+  anchor: "Anchor",
+  accent: "Accent",
+  neutral: "Neutral",
+};
+
 export interface CatalogItem {
   name: string;
   weight: number;
@@ -48,6 +56,7 @@ export const ITEM_CATALOG: CatalogItem[] = [
   { name: "Backsplash",          weight: 3,  category: "surfaces", lightnessRange: [40, 85], role: "accent" },
   { name: "Countertop",          weight: 4,  category: "surfaces", lightnessRange: [30, 85], role: "anchor" },
   { name: "Fireplace Surround",  weight: 4,  category: "surfaces", lightnessRange: [30, 80], role: "anchor" },
+  { name: "Wall Tile",           weight: 5,  category: "surfaces", lightnessRange: [45, 95], role: "background" },
 
   // Furniture — the big pieces
   { name: "Couch",               weight: 7,  category: "furniture", lightnessRange: [30, 80], role: "anchor" },
@@ -67,6 +76,12 @@ export const ITEM_CATALOG: CatalogItem[] = [
   { name: "TV Console",          weight: 3,  category: "furniture", lightnessRange: [20, 55], role: "anchor" },
   { name: "Bar Cart",            weight: 2,  category: "furniture", lightnessRange: [30, 70], role: "accent" },
   { name: "Side Table",          weight: 2,  category: "furniture", lightnessRange: [25, 65], role: "anchor" },
+  { name: "Console Table",       weight: 3,  category: "furniture", lightnessRange: [25, 65], role: "anchor" },
+  { name: "Bench",               weight: 2,  category: "furniture", lightnessRange: [25, 70], role: "anchor" },
+  { name: "Vanity",              weight: 4,  category: "furniture", lightnessRange: [25, 85], role: "anchor" },
+  { name: "Crib",                weight: 4,  category: "furniture", lightnessRange: [40, 95], role: "anchor" },
+  { name: "Changing Table",      weight: 3,  category: "furniture", lightnessRange: [35, 90], role: "anchor" },
+  { name: "Rocking Chair",       weight: 3,  category: "furniture", lightnessRange: [30, 80], role: "anchor" },
 
   // Textiles — soft goods
   { name: "Rug",                 weight: 6,  category: "textiles", lightnessRange: [30, 80], role: "anchor" },
@@ -81,6 +96,9 @@ export const ITEM_CATALOG: CatalogItem[] = [
   { name: "Throw Blanket",       weight: 2,  category: "textiles", lightnessRange: [40, 80], role: "accent" },
   { name: "Table Runner",        weight: 1,  category: "textiles", lightnessRange: [40, 80], role: "accent" },
   { name: "Upholstery",          weight: 4,  category: "textiles", lightnessRange: [20, 65], role: "anchor" },
+  { name: "Shower Curtain",      weight: 4,  category: "textiles", lightnessRange: [45, 95], role: "background" },
+  { name: "Towels",              weight: 2,  category: "textiles", lightnessRange: [30, 90], role: "accent" },
+  { name: "Bath Mat",            weight: 1,  category: "textiles", lightnessRange: [30, 80], role: "accent" },
 
   // Fixtures — built-in or structural
   { name: "Doors",               weight: 3,  category: "fixtures", lightnessRange: [75, 97], role: "neutral" },
@@ -105,12 +123,69 @@ export const ITEM_CATALOG: CatalogItem[] = [
   { name: "Tray",                weight: 1,  category: "accents", lightnessRange: [30, 70], role: "accent" },
 ];
 
+// ─── Custom items ────────────────────────────────────────────────
+
 /**
- * Look up a catalog item by name (case-insensitive).
+ * User-defined items, stored with the project. An entry with the name
+ * of a built-in item overrides it. Like the working space this is
+ * module state, read at call time, so the assigners, optimizer and
+ * spec sheet all see the same catalog without threading it through.
  */
-export function getCatalogItem(name: string): CatalogItem | undefined {
+let customCatalog: CatalogItem[] = [];
+
+export function getCustomCatalog(): CatalogItem[] {
+  return customCatalog;
+}
+
+export function setCustomCatalog(items: CatalogItem[]): void {
+  customCatalog = items;
+}
+
+function findByName(items: CatalogItem[], name: string): CatalogItem | undefined {
   const lower = name.toLowerCase().trim();
-  return ITEM_CATALOG.find((item) => item.name.toLowerCase() === lower);
+  return items.find((item) => item.name.toLowerCase() === lower);
+}
+
+export function isBuiltInItem(name: string): boolean {
+  return findByName(ITEM_CATALOG, name) !== undefined;
+}
+
+/**
+ * A valid catalog item from stored or typed-in values, or null if the
+ * name is blank: weight clamped to 1–10, lightness range to 0–100 and
+ * put in order, unknown roles and categories replaced by the defaults.
+ */
+export function normalizeCatalogItem(raw: Partial<CatalogItem>): CatalogItem | null {
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name) return null;
+  const clamp = (v: unknown, lo: number, hi: number, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.min(hi, Math.max(lo, v)) : fallback;
+  const [a, b] = Array.isArray(raw.lightnessRange) ? raw.lightnessRange : [20, 90];
+  const lo = clamp(a, 0, 100, 20);
+  const hi = clamp(b, 0, 100, 90);
+  return {
+    name,
+    weight: Math.round(clamp(raw.weight, 1, 10, 3)),
+    category: raw.category && Object.hasOwn(CATEGORY_LABELS, raw.category) ? raw.category : "accents",
+    lightnessRange: [Math.min(lo, hi), Math.max(lo, hi)],
+    role: raw.role && Object.hasOwn(ROLE_LABELS, raw.role) ? raw.role : "anchor",
+  };
+}
+
+/** Add or replace the custom entry with this item's name */
+export function upsertCustomItem(items: CatalogItem[], item: CatalogItem): CatalogItem[] {
+  const lower = item.name.toLowerCase();
+  const index = items.findIndex((i) => i.name.toLowerCase() === lower);
+  if (index === -1) return [...items, item];
+  return items.map((i, j) => (j === index ? item : i));
+}
+
+/**
+ * Look up a catalog item by name (case-insensitive). Custom items win
+ * over built-in ones.
+ */
+export function getCatalogItem(name: string): CatalogItem | undefined {
+  return findByName(customCatalog, name) ?? findByName(ITEM_CATALOG, name);
 }
 
 export function getCatalogWeight(name: string): number {
@@ -127,6 +202,8 @@ export function getCatalogRole(name: string): ItemRole {
 
 /**
  * Get catalog items grouped by category, for the add-item picker.
+ * Custom items take the place of the built-ins they override and come
+ * after the built-ins in their category.
  */
 export function getCatalogByCategory(): Record<ItemCategory, CatalogItem[]> {
   const result: Record<ItemCategory, CatalogItem[]> = {
@@ -137,6 +214,10 @@ export function getCatalogByCategory(): Record<ItemCategory, CatalogItem[]> {
     accents: [],
   };
   for (const item of ITEM_CATALOG) {
+    const override = findByName(customCatalog, item.name);
+    if (!override) result[item.category].push(item);
+  }
+  for (const item of customCatalog) {
     result[item.category].push(item);
   }
   return result;
@@ -0,0 +1,161 @@
+import chroma from "chroma-js";
+import { toLab, fromLab, toLCH, colorDistance } from "./colorSpace";
+import { mapToGamut, gamutAdjustmentOf, isOutOfGamut } from "./gamut";
+import type { GeneratedPalette } from "./harmonies";
+
+/**
+ * Palette morphing.
+ *
+ * Blending two palettes color by color only makes sense once each color
+ * knows its partner. Colors are paired so the total working-space ΔE
+ * between partners is as small as possible (an optimal assignment, not
+ * a greedy nearest match), then each pair is interpolated in the
+ * working space's Cartesian coordinates. Straight lines in CIELAB or
+ * OKLab pass through perceptually even midpoints, where RGB blends go
+ * muddy. Midpoints that land outside sRGB are pulled back in by
+ * reducing chroma, like generated colors.
+ */
+
+export interface ColorPair {
+  /** Index into the first palette */
+  from: number;
+  /** Index into the second palette */
+  to: number;
+  deltaE: number;
+}
+
+export interface MorphedPalette extends GeneratedPalette {
+  /** Share of the second palette, 0–1 */
+  ratio: number;
+}
+
+/**
+ * Minimum-cost assignment of rows to columns for a square cost matrix
+ * (Hungarian algorithm, O(n³)). Returns the column assigned to each row.
+ */
+function solveAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  // p[j]: row matched to column j (1-based, 0 = none)
+  const p = new Array(n + 1).fill(0);
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(n).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    if (p[j] > 0) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+}
+
+/**
+ * Pair every color of `a` with one of `b` for the smallest total ΔE.
+ * Equal sizes give a one-to-one pairing. When one palette is longer,
+ * its extra colors are paired with their nearest color in the other,
+ * so the morph has as many colors as the longer palette.
+ */
+export function pairPalettes(a: chroma.Color[], b: chroma.Color[]): ColorPair[] {
+  if (a.length === 0 || b.length === 0) return [];
+  const distance = a.map((ca) => b.map((cb) => colorDistance(ca, cb)));
+
+  // Pad to square with free dummy rows/columns, solve, then drop them
+  const n = Math.max(a.length, b.length);
+  const cost = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) =>
+      i < a.length && j < b.length ? distance[i][j] : 0
+    )
+  );
+  const assignment = solveAssignment(cost);
+
+  const pairs: ColorPair[] = [];
+  for (let i = 0; i < n; i++) {
+    const j = assignment[i];
+    if (i < a.length && j < b.length) {
+      pairs.push({ from: i, to: j, deltaE: distance[i][j] });
+    } else if (i < a.length) {
+      // Extra color in a: nearest in b
+      const nearest = distance[i].indexOf(Math.min(...distance[i]));
+      pairs.push({ from: i, to: nearest, deltaE: distance[i][nearest] });
+    } else {
+      // Extra color in b: nearest in a
+      const column = distance.map((row) => row[j]);
+      const nearest = column.indexOf(Math.min(...column));
+      pairs.push({ from: nearest, to: j, deltaE: column[nearest] });
+    }
+  }
+  return pairs.sort((x, y) => x.from - y.from || x.to - y.to);
+}
+
+/** Interpolate two colors in the working space, mapped into sRGB */
+export function blendColors(a: chroma.Color, b: chroma.Color, ratio: number): chroma.Color {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  const mixed = fromLab(
+    l1 + (l2 - l1) * ratio,
+    a1 + (a2 - a1) * ratio,
+    b1 + (b2 - b1) * ratio
+  );
+  if (!isOutOfGamut(mixed)) return mixed;
+  const [L, C, H] = toLCH(mixed);
+  return mapToGamut(L, C, H);
+}
+
+/**
+ * Intermediate palettes between `a` and `b`, one per ratio (0 = a,
+ * 1 = b). Every palette uses the same pairing.
+ */
+export function morphPalettes(
+  a: chroma.Color[],
+  b: chroma.Color[],
+  ratios: number[]
+): MorphedPalette[] {
+  const pairs = pairPalettes(a, b);
+  return ratios.map((ratio) => {
+    const colors = pairs.map(({ from, to }) => blendColors(a[from], b[to], ratio));
+    return { ratio, colors, gamut: colors.map(gamutAdjustmentOf) };
+  });
+}
+
+/** `steps` evenly spaced ratios strictly between 0 and 1 */
+export function evenRatios(steps: number): number[] {
+  return Array.from({ length: steps }, (_, i) => (i + 1) / (steps + 1));
+}
@@ -0,0 +1,201 @@
+import chroma from "chroma-js";
+import { generatePalette, DEFAULT_CONSTRAINTS } from "./harmonies";
+import type { GeneratedPalette, GenerationConstraints, HarmonyMode } from "./harmonies";
+import { toLCH, colorDistance } from "./colorSpace";
+
+/**
+ * Palette quality and diverse selection.
+ *
+ * A palette is judged on four things: how distinguishable its closest
+ * pair of colors is, how much of the lightness range it covers, whether
+ * it balances neutrals against chromatic colors, and whether it has the
+ * dark and light neutral anchors rooms need. Generation oversamples
+ * variations, ranks them by this score and keeps the best ones that
+ * also differ enough from each other.
+ */
+
+export interface PaletteQuality {
+  /** Weighted overall score, 0–100 */
+  score: number;
+  /** Smallest working-space ΔE between any two colors */
+  minDeltaE: number;
+  /** Lightness bands covered, out of LIGHTNESS_BANDS.length */
+  bandsCovered: number;
+  /** Share of colors that read as neutral (0–1) */
+  neutralShare: number;
+  hasDarkAnchor: boolean;
+  hasLightAnchor: boolean;
+  /** Each sub-score, 0–100 */
+  components: {
+    separation: number;
+    coverage: number;
+    chromaBalance: number;
+    anchors: number;
+  };
+}
+
+const QUALITY_WEIGHTS = {
+  separation: 0.35,
+  coverage: 0.25,
+  chromaBalance: 0.25,
+  anchors: 0.15,
+};
+
+/**
+ * ΔE at or below which a pair is effectively a duplicate, and at or
+ * above which it is comfortably distinct. Two neutrals only need to be
+ * told apart (walls vs. trim are meant to be close); any pair with a
+ * chromatic color needs real separation.
+ */
+const CHROMATIC_SEPARATION: [number, number] = [3, 20];
+const NEUTRAL_SEPARATION: [number, number] = [1.5, 4];
+
+function separationScore(deltaE: number, [duplicate, distinct]: [number, number]): number {
+  return Math.max(0, Math.min(100, ((deltaE - duplicate) / (distinct - duplicate)) * 100));
+}
+
+/** Dark, mid-dark, mid-light and light */
+export const LIGHTNESS_BANDS: [number, number][] = [
+  [0, 35],
+  [35, 55],
+  [55, 75],
+  [75, 101],
+];
+
+/** Same neutral threshold the anchors use */
+const NEUTRAL_CHROMA = 12;
+
+/** Neutral share that supports the chromatic colors without drowning them */
+const NEUTRAL_SHARE_RANGE: [number, number] = [0.2, 0.6];
+
+export function computePaletteQuality(colors: chroma.Color[]): PaletteQuality {
+  const lch = colors.map((c) => toLCH(c));
+
+  // Separation is the worst pair's score
+  let minDeltaE = Infinity;
+  let separation = 100;
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      const dE = colorDistance(colors[i], colors[j]);
+      const bothNeutral = lch[i][1] < NEUTRAL_CHROMA && lch[j][1] < NEUTRAL_CHROMA;
+      minDeltaE = Math.min(minDeltaE, dE);
+      separation = Math.min(
+        separation,
+        separationScore(dE, bothNeutral ? NEUTRAL_SEPARATION : CHROMATIC_SEPARATION)
+      );
+    }
+  }
+  if (minDeltaE === Infinity) minDeltaE = 0;
+
+  const bandsCovered = LIGHTNESS_BANDS.filter(([lo, hi]) =>
+    lch.some(([L]) => L >= lo && L < hi)
+  ).length;
+  const coverage = (bandsCovered / LIGHTNESS_BANDS.length) * 100;
+
+  const neutralShare = colors.length > 0
+    ? lch.filter(([, C]) => C < NEUTRAL_CHROMA).length / colors.length
+    : 0;
+  const [lowShare, highShare] = NEUTRAL_SHARE_RANGE;
+  const shareMiss = neutralShare < lowShare
+    ? lowShare - neutralShare
+    : neutralShare > highShare ? neutralShare - highShare : 0;
+  const chromaBalance = Math.max(0, 100 - shareMiss * 200);
+
+  const hasDarkAnchor = lch.some(([L, C]) => L < 30 && C < NEUTRAL_CHROMA);
+  const hasLightAnchor = lch.some(([L, C]) => L > 80 && C < NEUTRAL_CHROMA);
+  const anchors = (hasDarkAnchor ? 50 : 0) + (hasLightAnchor ? 50 : 0);
+
+  const components = { separation, coverage, chromaBalance, anchors };
+  const score = Math.round(
+    separation * QUALITY_WEIGHTS.separation +
+    coverage * QUALITY_WEIGHTS.coverage +
+    chromaBalance * QUALITY_WEIGHTS.chromaBalance +
+    anchors * QUALITY_WEIGHTS.anchors
+  );
+
+  return {
+    score,
+    minDeltaE,
+    bandsCovered,
+    neutralShare,
+    hasDarkAnchor,
+    hasLightAnchor,
+    components,
+  };
+}
+
+// ─── Diverse selection ────────────────────────────────────────────
+
+/**
+ * How different two palettes look: the average distance from each
+ * color to its nearest match in the other palette, both ways.
+ */
+export function paletteDistance(a: chroma.Color[], b: chroma.Color[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const nearest = (from: chroma.Color[], to: chroma.Color[]) =>
+    from.reduce(
+      (sum, c) => sum + Math.min(...to.map((d) => colorDistance(c, d))),
+      0
+    ) / from.length;
+  return (nearest(a, b) + nearest(b, a)) / 2;
+}
+
+export interface RankedPalette extends GeneratedPalette {
+  /** Variation index the palette was generated from */
+  variation: number;
+  quality: PaletteQuality;
+}
+
+export interface RankOptions {
+  /** Variations generated per palette returned (default 3) */
+  oversample?: number;
+  /** Palettes closer than this to an already-kept one are skipped (default 6) */
+  minDistance?: number;
+}
+
+/**
+ * Generate `numSuggestions` palettes by oversampling variations and
+ * keeping the highest-quality ones that are mutually diverse. Quality
+ * is judged on the locked and generated colors only: anchors a tab adds
+ * afterwards would fill the anchor term for every candidate. Each result
+ * keeps its variation index, so it can be regenerated alone.
+ * If too few variations clear the diversity bar, the best of the rest
+ * fill the remaining slots.
+ */
+export function generateRankedPalettes(
+  lockedColors: chroma.Color[],
+  mode: HarmonyMode,
+  count: number,
+  numSuggestions: number,
+  batchSeed: number = 0,
+  constraints: GenerationConstraints = DEFAULT_CONSTRAINTS,
+  options: RankOptions = {}
+): RankedPalette[] {
+  const { oversample = 3, minDistance = 6 } = options;
+  const pool: RankedPalette[] = [];
+  for (let v = 0; v < numSuggestions * oversample; v++) {
+    const palette = generatePalette(lockedColors, mode, count, v, batchSeed, constraints);
+    pool.push({
+      ...palette,
+      variation: v,
+      quality: computePaletteQuality([...lockedColors, ...palette.colors]),
+    });
+  }
+  pool.sort((a, b) => b.quality.score - a.quality.score || a.variation - b.variation);
+
+  const kept: RankedPalette[] = [];
+  const skipped: RankedPalette[] = [];
+  for (const candidate of pool) {
+    if (kept.length >= numSuggestions) break;
+    const distinct = kept.every(
+      (k) => paletteDistance(k.colors, candidate.colors) >= minDistance
+    );
+    if (distinct) kept.push(candidate);
+    else skipped.push(candidate);
+  }
+  for (const candidate of skipped) {
+    if (kept.length >= numSuggestions) break;
+    kept.push(candidate);
+  }
+  return kept;
+}
@@ -1,55 +1,503 @@
 import chroma from "chroma-js";
+import { isOutOfGamut } from "./gamut";
+
+/**
+ * Color string parsing.
+ *
+ * Understands what people copy out of browsers, design tools and this
+ * app: hex in 3, 4, 6 and 8 digits (with or without #), CSS Color 4
+ * functions in both the modern space-separated form and the legacy
+ * comma form (rgb, hsl, hwb, lab, lch, oklab, oklch, color()), CSS
+ * named colors, and the app's own LAB readout ("50.0, 20.0, -10.0").
+ *
+ * Two LAB conventions meet here. CSS lab() and lch() are defined
+ * against a D50 white, and are converted as such. The comma form
+ * lab(L, a, b) and bare number triples are what this app displays,
+ * which is chroma-js's D65 LAB, so they are read back unchanged.
+ *
+ * Palettes are opaque: alpha is parsed and reported but not applied.
+ * Colors outside sRGB (display-p3, wide lab/oklch values) are brought
+ * in by reducing OKLCH chroma at constant lightness and hue.
+ */
+
+export type ColorFormat =
+  | "hex"
+  | "rgb"
+  | "hsl"
+  | "hwb"
+  | "lab"
+  | "lch"
+  | "oklab"
+  | "oklch"
+  | "color"
+  | "lab-values"
+  | "named";
+
+export const COLOR_FORMAT_LABELS: Record<ColorFormat, string> = {
+  hex: "Hex",
+  rgb: "rgb()",
+  hsl: "hsl()",
+  hwb: "hwb()",
+  lab: "CSS lab() (D50)",
+  lch: "CSS lch() (D50)",
+  oklab: "oklab()",
+  oklch: "oklch()",
+  color: "color()",
+  "lab-values": "LAB values (D65)",
+  named: "Named color",
+};
+
+export interface ParsedColor {
+  ok: true;
+  color: chroma.Color;
+  format: ColorFormat;
+  /** Alpha from the input, 0–1; not applied to `color` */
+  alpha: number;
+  /** True if the color was outside sRGB and had its chroma reduced */
+  gamutMapped: boolean;
+}
+
+export interface ColorParseError {
+  ok: false;
+  /** Human-readable reason, naming the problem token */
+  error: string;
+}
+
+export type ColorParseResult = ParsedColor | ColorParseError;
 
 /**
  * Attempts to parse a user-provided color string into a chroma.Color.
- * Supports hex (#RRGGBB, RRGGBB), lab(L, a, b), rgb(R, G, B),
- * comma-separated LAB numbers, and CSS named colors.
- * Returns null if the string cannot be parsed.
+ * Returns null if the string cannot be parsed; see parseColorDetailed
+ * for the reason and the detected format.
  */
 export function parseColor(input: string): chroma.Color | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
-
-  // Try lab(L, a, b) format
-  const labMatch = trimmed.match(
-    /^lab\s*\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)$/i
-  );
-  if (labMatch) {
-    const [, L, a, b] = labMatch.map(Number);
-    try {
-      return chroma.lab(L, a, b);
-    } catch {
-      return null;
+  const result = parseColorDetailed(input);
+  return result.ok ? result.color : null;
+}
+
+/**
+ * Split a pasted list of colors on commas, semicolons and newlines,
+ * ignoring separators inside parentheses so "rgb(1, 2, 3)" stays whole.
+ */
+export function splitColorList(text: string): string[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of text) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if (depth === 0 && /[,;\n]/.test(ch)) {
+      tokens.push(current);
+      current = "";
+    } else {
+      current += ch;
     }
   }
+  tokens.push(current);
+  return tokens.map((t) => t.trim()).filter(Boolean);
+}
 
-  // Try bare comma-separated numbers as LAB (e.g. "50, 20, -10")
-  const commaMatch = trimmed.match(
-    /^(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)$/
-  );
-  if (commaMatch) {
-    const [, L, a, b] = commaMatch.map(Number);
-    try {
-      return chroma.lab(L, a, b);
-    } catch {
-      return null;
-    }
+// ─── Matrices and transfer functions ─────────────────────────────
+
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+function multiply(m: Mat3, [x, y, z]: Vec3): Vec3 {
+  return [
+    m[0][0] * x + m[0][1] * y + m[0][2] * z,
+    m[1][0] * x + m[1][1] * y + m[1][2] * z,
+    m[2][0] * x + m[2][1] * y + m[2][2] * z,
+  ];
+}
+
+/** CSS Color 4 reference white for lab() and lch() */
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+/** Bradford chromatic adaptation, D50 → D65 */
+const D50_TO_D65: Mat3 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+
+const XYZ_D65_TO_LINEAR_SRGB: Mat3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const LINEAR_P3_TO_XYZ_D65: Mat3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LINEAR_REC2020_TO_XYZ_D65: Mat3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+/** Linear sRGB → LMS → OKLab (Ottosson) */
+const LINEAR_SRGB_TO_LMS: Mat3 = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+
+const LMS_TO_OKLAB: Mat3 = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+];
+
+/** sRGB (and display-p3) transfer function, extended to negatives */
+function srgbToLinear(v: number): number {
+  const abs = Math.abs(v);
+  const linear = abs <= 0.04045 ? abs / 12.92 : Math.pow((abs + 0.055) / 1.055, 2.4);
+  return Math.sign(v) * linear;
+}
+
+function rec2020ToLinear(v: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(v);
+  const linear = abs < beta * 4.5 ? abs / 4.5 : Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+  return Math.sign(v) * linear;
+}
+
+// ─── Building colors ─────────────────────────────────────────────
+
+interface Built {
+  color: chroma.Color;
+  gamutMapped: boolean;
+}
+
+/**
+ * An OKLab color, pulled into sRGB if needed by binary-searching
+ * OKLCH chroma down at the same lightness and hue.
+ */
+function fromOKLab(L: number, a: number, b: number): Built {
+  const l = Math.max(0, Math.min(1, L));
+  const direct = chroma.oklab(l, a, b);
+  if (!isOutOfGamut(direct)) return { color: direct, gamutMapped: false };
+
+  const C = Math.hypot(a, b);
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  let lo = 0;
+  let hi = C;
+  for (let i = 0; i < 20; i++) {
+    const mid = (lo + hi) / 2;
+    if (isOutOfGamut(chroma.oklch(l, mid, h))) hi = mid;
+    else lo = mid;
+  }
+  return { color: chroma.oklch(l, lo, h), gamutMapped: true };
+}
+
+const IN_GAMUT_EPSILON = 1e-4;
+
+function fromLinearSRGB(rgb: Vec3): Built {
+  if (rgb.every((v) => v >= -IN_GAMUT_EPSILON && v <= 1 + IN_GAMUT_EPSILON)) {
+    const encode = (v: number) => {
+      const c = Math.max(0, Math.min(1, v));
+      return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+    };
+    const [r, g, b] = rgb.map(encode);
+    return { color: chroma.rgb(r, g, b), gamutMapped: false };
+  }
+  const [l, m, s] = multiply(LINEAR_SRGB_TO_LMS, rgb).map(Math.cbrt) as Vec3;
+  const [L, a, b] = multiply(LMS_TO_OKLAB, [l, m, s]);
+  return fromOKLab(L, a, b);
+}
+
+function fromXYZD65(xyz: Vec3): Built {
+  return fromLinearSRGB(multiply(XYZ_D65_TO_LINEAR_SRGB, xyz));
+}
+
+/** CSS lab(): CIELAB against D50 */
+function fromLabD50(L: number, a: number, b: number): Built {
+  const epsilon = 216 / 24389;
+  const kappa = 24389 / 27;
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const x = fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa;
+  const y = L > kappa * epsilon ? fy ** 3 : L / kappa;
+  const z = fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa;
+  const xyzD50: Vec3 = [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+  return fromXYZD65(multiply(D50_TO_D65, xyzD50));
+}
+
+/**
+ * A D50 CIELAB color as used by CSS and by Adobe swatch files, mapped
+ * into sRGB if needed.
+ */
+export function labD50ToColor(L: number, a: number, b: number): chroma.Color {
+  return fromLabD50(L, a, b).color;
+}
+
+function polarToCartesian(c: number, hDeg: number): [number, number] {
+  const h = (hDeg * Math.PI) / 180;
+  return [c * Math.cos(h), c * Math.sin(h)];
+}
+
+// ─── Tokens ──────────────────────────────────────────────────────
+
+type Unit = "" | "%" | "deg" | "rad" | "grad" | "turn";
+
+interface Value {
+  value: number;
+  unit: Unit;
+}
+
+const NUMBER_RE = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+/** Parse one argument; `none` reads as 0 */
+function readValue(token: string): Value | null {
+  if (token.toLowerCase() === "none") return { value: 0, unit: "" };
+  const match = token.match(NUMBER_RE);
+  if (!match) return null;
+  return { value: Number(match[1]), unit: (match[2]?.toLowerCase() ?? "") as Unit };
+}
+
+/** Reject the input; parseColorDetailed turns the message into its error */
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+/** A number, with % mapped onto `percentRef` (100% = percentRef) */
+function scalar(v: Value, percentRef: number, what: string): number {
+  if (v.unit === "%") return (v.value / 100) * percentRef;
+  if (v.unit !== "") fail(`${what} can't be an angle`);
+  return v.value;
+}
+
+/** A hue in degrees; bare numbers are degrees */
+function angle(v: Value, what: string): number {
+  switch (v.unit) {
+    case "":
+    case "deg":
+      return v.value;
+    case "rad":
+      return (v.value * 180) / Math.PI;
+    case "grad":
+      return v.value * 0.9;
+    case "turn":
+      return v.value * 360;
+    default:
+      return fail(`${what} must be an angle, not a percentage`);
+  }
+}
+
+function readAlpha(v: Value | undefined): number {
+  if (!v) return 1;
+  return Math.max(0, Math.min(1, scalar(v, 1, "Alpha")));
+}
+
+interface FunctionArgs {
+  values: Value[];
+  alpha?: Value;
+  /** Legacy comma-separated form */
+  legacy: boolean;
+}
+
+/**
+ * Split the inside of a color function into values and an optional
+ * alpha. Accepts "a b c / alpha" and the legacy "a, b, c, alpha".
+ */
+function readArgs(name: string, body: string, count: number): FunctionArgs {
+  const legacy = body.includes(",");
+  let parts: string[];
+  let alphaToken: string | undefined;
+
+  if (legacy) {
+    if (body.includes("/")) fail(`${name}() can't mix commas and "/"`);
+    parts = body.split(",").map((p) => p.trim());
+    if (parts.length === count + 1) alphaToken = parts.pop();
+  } else {
+    const [main, alpha, extra] = body.split("/");
+    if (extra !== undefined) fail(`${name}() has more than one "/"`);
+    parts = main.trim().split(/\s+/).filter(Boolean);
+    alphaToken = alpha?.trim();
+    if (alpha !== undefined && !alphaToken) fail(`${name}() has "/" but no alpha`);
   }
 
-  // Try bare hex without #
-  if (/^[0-9a-fA-F]{6}$/.test(trimmed)) {
-    try {
-      return chroma(`#${trimmed}`);
-    } catch {
-      return null;
+  if (parts.length !== count) {
+    fail(`${name}() needs ${count} values, got ${parts.length}`);
+  }
+  const values = parts.map((p) => readValue(p) ?? fail(`"${p}" is not a number in ${name}()`));
+  const alpha = alphaToken === undefined
+    ? undefined
+    : readValue(alphaToken) ?? fail(`"${alphaToken}" is not a valid alpha in ${name}()`);
+  return { values, alpha, legacy };
+}
+
+// ─── Formats ─────────────────────────────────────────────────────
+
+function parseHex(hex: string): ParsedColor {
+  if (!/^[0-9a-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+    fail(`"#${hex}" is not a hex color (use 3, 4, 6 or 8 hex digits)`);
+  }
+  const full = hex.length <= 4 ? [...hex].map((ch) => ch + ch).join("") : hex;
+  const alpha = full.length === 8 ? parseInt(full.slice(6), 16) / 255 : 1;
+  return {
+    ok: true,
+    color: chroma(`#${full.slice(0, 6)}`),
+    format: "hex",
+    alpha,
+    gamutMapped: false,
+  };
+}
+
+/** How each supported color() space reaches sRGB */
+const COLOR_SPACES: Record<string, (c: Vec3) => Built> = {
+  srgb: (c) => fromLinearSRGB(c.map(srgbToLinear) as Vec3),
+  "srgb-linear": (c) => fromLinearSRGB(c),
+  "display-p3": (c) => fromXYZD65(multiply(LINEAR_P3_TO_XYZ_D65, c.map(srgbToLinear) as Vec3)),
+  rec2020: (c) => fromXYZD65(multiply(LINEAR_REC2020_TO_XYZ_D65, c.map(rec2020ToLinear) as Vec3)),
+  xyz: (c) => fromXYZD65(c),
+  "xyz-d65": (c) => fromXYZD65(c),
+  "xyz-d50": (c) => fromXYZD65(multiply(D50_TO_D65, c)),
+};
+
+function parseFunction(name: string, body: string): ParsedColor {
+  const done = (format: ColorFormat, built: Built, alpha?: Value): ParsedColor => ({
+    ok: true,
+    color: built.color,
+    format,
+    alpha: readAlpha(alpha),
+    gamutMapped: built.gamutMapped,
+  });
+
+  switch (name) {
+    case "rgb":
+    case "rgba": {
+      const { values, alpha } = readArgs(name, body, 3);
+      const [r, g, b] = values.map((v) => scalar(v, 255, "An rgb() channel") / 255);
+      return done("rgb", fromLinearSRGB([r, g, b].map(srgbToLinear) as Vec3), alpha);
+    }
+    case "hsl":
+    case "hsla": {
+      const { values, alpha } = readArgs(name, body, 3);
+      const h = angle(values[0], "hsl() hue");
+      const s = Math.max(0, Math.min(100, scalar(values[1], 100, "hsl() saturation")));
+      const l = Math.max(0, Math.min(100, scalar(values[2], 100, "hsl() lightness")));
+      const color = chroma.hsl(((h % 360) + 360) % 360, s / 100, l / 100);
+      return done("hsl", { color, gamutMapped: false }, alpha);
+    }
+    case "hwb": {
+      const { values, alpha } = readArgs(name, body, 3);
+      const h = angle(values[0], "hwb() hue");
+      let w = Math.max(0, scalar(values[1], 100, "hwb() whiteness") / 100);
+      let bl = Math.max(0, scalar(values[2], 100, "hwb() blackness") / 100);
+      if (w + bl > 1) {
+        const sum = w + bl;
+        w /= sum;
+        bl /= sum;
+      }
+      const pure = chroma.hsl(((h % 360) + 360) % 360, 1, 0.5).rgb();
+      const [r, g, b] = pure.map((c) => c * (1 - w - bl) + 255 * w);
+      return done("hwb", { color: chroma.rgb(r, g, b), gamutMapped: false }, alpha);
+    }
+    case "lab": {
+      const { values, alpha, legacy } = readArgs(name, body, 3);
+      const L = scalar(values[0], 100, "lab() lightness");
+      const a = scalar(values[1], 125, "lab() a");
+      const b = scalar(values[2], 125, "lab() b");
+      // lab(L, a, b) with commas is the app's own D65 readout
+      if (legacy) {
+        return done("lab-values", { color: chroma.lab(L, a, b), gamutMapped: false }, alpha);
+      }
+      return done("lab", fromLabD50(L, a, b), alpha);
+    }
+    case "lch": {
+      const { values, alpha } = readArgs(name, body, 3);
+      const L = scalar(values[0], 100, "lch() lightness");
+      const C = Math.max(0, scalar(values[1], 150, "lch() chroma"));
+      const [a, b] = polarToCartesian(C, angle(values[2], "lch() hue"));
+      return done("lch", fromLabD50(L, a, b), alpha);
+    }
+    case "oklab": {
+      const { values, alpha } = readArgs(name, body, 3);
+      const L = scalar(values[0], 1, "oklab() lightness");
+      const a = scalar(values[1], 0.4, "oklab() a");
+      const b = scalar(values[2], 0.4, "oklab() b");
+      return done("oklab", fromOKLab(L, a, b), alpha);
     }
+    case "oklch": {
+      const { values, alpha } = readArgs(name, body, 3);
+      const L = scalar(values[0], 1, "oklch() lightness");
+      const C = Math.max(0, scalar(values[1], 0.4, "oklch() chroma"));
+      const [a, b] = polarToCartesian(C, angle(values[2], "oklch() hue"));
+      return done("oklch", fromOKLab(L, a, b), alpha);
+    }
+    case "color": {
+      const [space, ...rest] = body.trim().split(/\s+/);
+      const convert = COLOR_SPACES[space?.toLowerCase() ?? ""];
+      if (!convert) {
+        fail(space ? `color() space "${space}" isn't supported` : "color() is missing a color space");
+      }
+      const { values, alpha } = readArgs("color", rest.join(" "), 3);
+      const channels = values.map((v) => scalar(v, 1, "A color() channel")) as Vec3;
+      return done("color", convert(channels), alpha);
+    }
+    default:
+      return fail(`${name}() is not a color function`);
   }
+}
 
-  // Fallback: let chroma try to parse it (hex with #, rgb(), named colors, etc.)
+/**
+ * Run a reader, prefixing any rejection with the input so one bad entry
+ * in a pasted list can be found.
+ */
+function naming(input: string, read: () => ParsedColor): ParsedColor {
   try {
-    return chroma(trimmed);
-  } catch {
-    return null;
+    return read();
+  } catch (e) {
+    return fail(`"${input}": ${e instanceof Error ? e.message : "could not be read as a color"}`);
+  }
+}
+
+/**
+ * Parse a color string and report which format it was in, or why it
+ * was rejected.
+ */
+export function parseColorDetailed(input: string): ColorParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, error: "Empty color" };
+
+  try {
+    if (trimmed.startsWith("#")) return parseHex(trimmed.slice(1));
+
+    const fn = trimmed.match(/^([a-z][a-z0-9-]*)\s*\(([^()]*)\)$/i);
+    if (fn) return naming(trimmed, () => parseFunction(fn[1].toLowerCase(), fn[2]));
+    if (trimmed.includes("(")) fail(`"${trimmed}" is not a complete color function`);
+
+    // Bare number triple: the app's LAB readout (e.g. "50, 20, -10")
+    const triple = trimmed.match(/^(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)$/);
+    if (triple) {
+      const [L, a, b] = triple.slice(1).map(Number);
+      if ([L, a, b].some((n) => !Number.isFinite(n))) fail(`"${trimmed}" is not three numbers`);
+      return { ok: true, color: chroma.lab(L, a, b), format: "lab-values", alpha: 1, gamutMapped: false };
+    }
+
+    // Bare hex without #, ahead of names so "fff" and "abc" read as hex
+    if (/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(trimmed)) return parseHex(trimmed);
+
+    if (/^[a-z]+$/i.test(trimmed)) {
+      if (trimmed.toLowerCase() === "transparent") fail(`"transparent" has no color`);
+      if (chroma.valid(trimmed)) {
+        return { ok: true, color: chroma(trimmed), format: "named", alpha: 1, gamutMapped: false };
+      }
+      fail(`"${trimmed}" is not a color name`);
+    }
+
+    return fail(`"${trimmed}" is not a recognized color format`);
+  } catch (e) {
+    return {
+      ok: false,
+      error: e instanceof Error ? e.message : `"${trimmed}" could not be read as a color`,
+    };
   }
 }
 
@@ -0,0 +1,231 @@
+import type chroma from "chroma-js";
+import type { RoomItem, PatternColor } from "./roomTemplates";
+import { prepareHarmony, scoreState, scoreWithColor, scoreWithoutIndex } from "./roomAssigner";
+import type { FillAlgorithm } from "./roomAssigner";
+import { colorDistance, getWorkingSpace } from "./colorSpace";
+import type { WorkingSpace } from "./colorSpace";
+
+/**
+ * Patterned items.
+ *
+ * Rugs, artwork and patterned textiles hold several colors, each with
+ * a share of the item's area. For scoring every pattern color counts
+ * as its own sample weighted by item weight × proportion, so a rug's
+ * 10% navy thread weighs a tenth of what a solid navy rug would.
+ *
+ * `RoomItem.color` always mirrors the first pattern color, which keeps
+ * swatches, exports and the spec sheet working for patterned items.
+ */
+
+export const MAX_PATTERN_COLORS = 4;
+
+/** Starting proportions for a pattern of 2–4 colors */
+const DEFAULT_PROPORTIONS: Record<number, number[]> = {
+  2: [70, 30],
+  3: [60, 30, 10],
+  4: [50, 25, 15, 10],
+};
+
+/**
+ * Pattern colors must differ by at least this much (ΔE in the working
+ * space) so auto-fill never builds a pattern out of near-duplicates.
+ */
+const MIN_PATTERN_DISTANCE = 12;
+
+export function isPatterned(item: RoomItem): item is RoomItem & { pattern: PatternColor[] } {
+  return item.pattern !== undefined && item.pattern.length > 1;
+}
+
+/** Keep `color` in step with the first pattern color */
+export function withPattern(item: RoomItem, pattern: PatternColor[]): RoomItem {
+  return { ...item, pattern, color: pattern[0]?.color ?? null };
+}
+
+export function makePatterned(item: RoomItem, count = 3): RoomItem {
+  const proportions = DEFAULT_PROPORTIONS[count] ?? DEFAULT_PROPORTIONS[3];
+  return withPattern(
+    item,
+    proportions.map((proportion, i) => ({ proportion, color: i === 0 ? item.color : null }))
+  );
+}
+
+export function makeSolid(item: RoomItem): RoomItem {
+  return { ...item, pattern: undefined };
+}
+
+/** Add one more (empty) color, taking its share from the largest */
+export function addPatternColor(item: RoomItem): RoomItem {
+  if (!item.pattern || item.pattern.length >= MAX_PATTERN_COLORS) return item;
+  const largest = item.pattern.reduce((best, p, i, all) => (p.proportion > all[best].proportion ? i : best), 0);
+  const share = Math.max(1, Math.round(item.pattern[largest].proportion / 3));
+  const pattern = item.pattern.map((p, i) =>
+    i === largest ? { ...p, proportion: p.proportion - share } : p
+  );
+  return withPattern(item, [...pattern, { color: null, proportion: share }]);
+}
+
+/** Drop a pattern color; a pattern left with one color becomes solid */
+export function removePatternColor(item: RoomItem, index: number): RoomItem {
+  if (!item.pattern) return item;
+  const pattern = item.pattern.filter((_, i) => i !== index);
+  return pattern.length > 1 ? withPattern(item, pattern) : makeSolid(withPattern(item, pattern));
+}
+
+/** Clear every pattern color, keeping the proportions */
+export function clearPatternColors(item: RoomItem): RoomItem {
+  return item.pattern
+    ? withPattern(item, item.pattern.map((p) => ({ ...p, color: null })))
+    : { ...item, color: null };
+}
+
+// ─── Scoring ─────────────────────────────────────────────────────
+
+export interface ColorComponent {
+  color: chroma.Color;
+  /** Item weight × the color's share of the item */
+  weight: number;
+  /** Index of the item it came from */
+  itemIndex: number;
+}
+
+/**
+ * Every colored sample in a room: one per solid item, one per filled
+ * pattern color. A pattern's shares are taken against all its
+ * proportions, so unfilled colors leave their share out.
+ */
+export function roomColorComponents(items: RoomItem[]): ColorComponent[] {
+  const components: ColorComponent[] = [];
+  items.forEach((item, itemIndex) => {
+    if (isPatterned(item)) {
+      const total = item.pattern.reduce((s, p) => s + Math.max(0, p.proportion), 0) || 1;
+      for (const p of item.pattern) {
+        if (p.color) {
+          components.push({
+            color: p.color,
+            weight: (item.weight * Math.max(0, p.proportion)) / total,
+            itemIndex,
+          });
+        }
+      }
+    } else if (item.color) {
+      components.push({ color: item.color, weight: item.weight, itemIndex });
+    }
+  });
+  return components;
+}
+
+/**
+ * How much each item contributes to the room score: the full score
+ * minus the score without all of that item's colors. Items without a
+ * color get null; rooms with fewer than three samples report 0, as
+ * computeItemDeltas does.
+ */
+export function computePatternedItemDeltas(
+  items: RoomItem[],
+  algorithm: FillAlgorithm,
+  palette: chroma.Color[] = [],
+  space: WorkingSpace = getWorkingSpace()
+): (number | null)[] {
+  const components = roomColorComponents(items);
+  if (components.length < 3) {
+    return items.map((_, i) => (components.some((c) => c.itemIndex === i) ? 0 : null));
+  }
+  const colors = components.map((c) => c.color);
+  const weights = components.map((c) => c.weight);
+  const state = prepareHarmony(colors, algorithm, palette, weights, space);
+  const full = scoreState(state);
+
+  return items.map((_, itemIndex) => {
+    const own = components
+      .map((c, i) => (c.itemIndex === itemIndex ? i : -1))
+      .filter((i) => i >= 0);
+    if (own.length === 0) return null;
+    // Solid items reuse the prepared state; patterns drop several samples
+    if (own.length === 1) return full - scoreWithoutIndex(state, own[0]);
+    const rest = components.filter((c) => c.itemIndex !== itemIndex);
+    const without = scoreState(
+      prepareHarmony(rest.map((c) => c.color), algorithm, palette, rest.map((c) => c.weight), space)
+    );
+    return full - without;
+  });
+}
+
+/** Room harmony with every pattern color counted at its share */
+export function computeRoomScore(
+  items: RoomItem[],
+  algorithm: FillAlgorithm,
+  palette: chroma.Color[] = [],
+  space: WorkingSpace = getWorkingSpace()
+): number {
+  const components = roomColorComponents(items);
+  return scoreState(
+    prepareHarmony(components.map((c) => c.color), algorithm, palette, components.map((c) => c.weight), space)
+  );
+}
+
+// ─── Auto-fill ───────────────────────────────────────────────────
+
+/**
+ * Complete patterned items after a fill has chosen their main color.
+ * Each empty pattern color gets the palette color that scores the room
+ * highest at its share of the item, among colors distinct enough from
+ * the rest of the pattern to read as a pattern at all.
+ */
+export function fillPatterns(
+  items: RoomItem[],
+  palette: chroma.Color[],
+  algorithm: FillAlgorithm = "surface-area",
+  space: WorkingSpace = getWorkingSpace()
+): RoomItem[] {
+  // The fills set `color`; carry it into the first pattern color
+  let result = items.map((item) =>
+    isPatterned(item) && item.color?.hex() !== item.pattern[0].color?.hex()
+      ? withPattern(item, [{ ...item.pattern[0], color: item.color }, ...item.pattern.slice(1)])
+      : item
+  );
+  if (palette.length === 0) return result;
+
+  for (let index = 0; index < result.length; index++) {
+    const item = result[index];
+    if (!isPatterned(item) || !item.color) continue;
+    if (item.pattern.every((p) => p.color)) continue;
+    const total = item.pattern.reduce((s, p) => s + Math.max(0, p.proportion), 0) || 1;
+    const pattern = [...item.pattern];
+
+    for (let slot = 0; slot < pattern.length; slot++) {
+      if (pattern[slot].color) continue;
+      const chosen = pattern.map((p) => p.color).filter((c): c is chroma.Color => c !== null);
+      const distinct = palette.filter((c) =>
+        chosen.every((other) => colorDistance(c, other, space) >= MIN_PATTERN_DISTANCE)
+      );
+      const candidates = distinct.length > 0
+        ? distinct
+        : palette.filter((c) => chosen.every((other) => other.hex() !== c.hex()));
+      if (candidates.length === 0) break;
+
+      const current = roomColorComponents(
+        result.map((r, i) => (i === index ? withPattern(r, pattern) : r))
+      );
+      const state = prepareHarmony(
+        current.map((c) => c.color),
+        algorithm,
+        palette,
+        current.map((c) => c.weight),
+        space
+      );
+      const weight = (item.weight * Math.max(0, pattern[slot].proportion)) / total;
+      let best = candidates[0];
+      let bestScore = -Infinity;
+      for (const candidate of candidates) {
+        const score = scoreWithColor(state, candidate, weight);
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+      pattern[slot] = { ...pattern[slot], color: best };
+    }
+    result = result.map((r, i) => (i === index ? withPattern(r, pattern) : r));
+  }
+  return result;
+}
@@ -1,6 +1,14 @@
 import chroma from "chroma-js";
-import type { RoomItem, Tendency } from "./roomTemplates";
-import { getCatalogWeight } from "./itemCatalog";
+import type { RoomItem, Tendency, CustomRoomTemplate } from "./roomTemplates";
+import { getCatalogWeight, normalizeCatalogItem } from "./itemCatalog";
+import type { CatalogItem } from "./itemCatalog";
+import type { GamutAdjustment } from "./gamut";
+import type { GenerationConstraints } from "./harmonies";
+import { encodeRecipe, decodeRecipe } from "./recipe";
+import type { PaletteRecipe } from "./recipe";
+import type { AnchorSettings } from "./anchors";
+import { createHome, DEFAULT_SHARED_ITEMS } from "./home";
+import type { Home } from "./home";
 
 const STORAGE_KEY = "colorgen_state";
 
@@ -15,6 +23,10 @@ interface SerializedEntry {
 interface SerializedSuggestion {
   hexes: string[];
   pinned: boolean;
+  gamut?: (GamutAdjustment | null)[];
+  /** Encoded PaletteRecipe */
+  recipe?: string;
+  blend?: number;
 }
 
 interface SerializedRoomItem {
@@ -23,6 +35,27 @@ interface SerializedRoomItem {
   hex: string | null;
   weight: number;
   tendency: Tendency;
+  pattern?: { hex: string | null; proportion: number }[];
+}
+
+interface SerializedRoomTemplate {
+  id: number;
+  name: string;
+  items: { name: string; weight: number; tendency: Tendency }[];
+}
+
+interface SerializedHomeRoom {
+  id: number;
+  name: string;
+  template: string;
+  items: SerializedRoomItem[];
+}
+
+interface SerializedHome {
+  rooms: SerializedHomeRoom[];
+  adjacency: [number, number][];
+  shared: string[];
+  activeRoomId: number;
 }
 
 export interface AppState {
@@ -34,12 +67,23 @@ export interface AppState {
   harmonyMode: string;
   colorCount: number;
   suggestionCount: number;
+  constraints?: GenerationConstraints;
+  paletteAnchors?: AnchorSettings;
 
   // Room tab
-  roomItems: SerializedRoomItem[];
-  selectedTemplate: string;
+  home?: SerializedHome;
+  /** Single-room state from before homes; read once to migrate */
+  roomItems?: SerializedRoomItem[];
+  selectedTemplate?: string;
   fillAlgorithm: string;
   manuallyAssigned: number[];
+  roomAnchors?: AnchorSettings;
+  roomRamps?: boolean;
+  roomTemplates?: SerializedRoomTemplate[];
+  customCatalog?: CatalogItem[];
+
+  // Engine
+  workingSpace?: string;
 }
 
 // ─── Save ─────────────────────────────────────────────────────────
@@ -86,21 +130,31 @@ export function deserializeEntries(
   }));
 }
 
-export function serializeSuggestions(
-  suggestions: { colors: chroma.Color[]; pinned: boolean }[]
-): SerializedSuggestion[] {
+interface StoredSuggestion {
+  colors: chroma.Color[];
+  pinned: boolean;
+  gamut?: (GamutAdjustment | null)[];
+  recipe?: PaletteRecipe;
+  blend?: number;
+}
+
+export function serializeSuggestions(suggestions: StoredSuggestion[]): SerializedSuggestion[] {
   return suggestions.map((s) => ({
     hexes: s.colors.map((c) => c.hex()),
     pinned: s.pinned,
+    gamut: s.gamut,
+    recipe: s.recipe ? encodeRecipe(s.recipe) : undefined,
+    blend: s.blend,
   }));
 }
 
-export function deserializeSuggestions(
-  suggestions: SerializedSuggestion[]
-): { colors: chroma.Color[]; pinned: boolean }[] {
+export function deserializeSuggestions(suggestions: SerializedSuggestion[]): StoredSuggestion[] {
   return suggestions.map((s) => ({
     colors: s.hexes.map((h) => chroma(h)),
     pinned: s.pinned,
+    gamut: s.gamut,
+    recipe: (s.recipe && decodeRecipe(s.recipe)) || undefined,
+    blend: s.blend,
   }));
 }
 
@@ -111,6 +165,10 @@ export function serializeRoomItems(items: RoomItem[]): SerializedRoomItem[] {
     hex: item.color ? item.color.hex() : null,
     weight: item.weight,
     tendency: item.tendency,
+    pattern: item.pattern?.map((p) => ({
+      hex: p.color ? p.color.hex() : null,
+      proportion: p.proportion,
+    })),
   }));
 }
 
@@ -123,5 +181,86 @@ export function deserializeRoomItems(items: SerializedRoomItem[]): RoomItem[] {
       ? item.weight
       : getCatalogWeight(item.name),
     tendency: item.tendency,
+    pattern: item.pattern?.map((p) => ({
+      color: p.hex ? chroma(p.hex) : null,
+      proportion: p.proportion,
+    })),
   }));
 }
+
+export function serializeHome(home: Home, activeRoomId: number): SerializedHome {
+  return {
+    rooms: home.rooms.map((room) => ({
+      id: room.id,
+      name: room.name,
+      template: room.template,
+      items: serializeRoomItems(room.items),
+    })),
+    adjacency: home.adjacency,
+    shared: home.shared,
+    activeRoomId,
+  };
+}
+
+/**
+ * The saved home, or a one-room home built from the single room that
+ * older saves kept in `roomItems`.
+ */
+export function deserializeHome(
+  state: AppState | null | undefined,
+  templateName: (template: string) => string
+): { home: Home; activeRoomId: number } {
+  if (state?.home?.rooms.length) {
+    const home: Home = {
+      rooms: state.home.rooms.map((room) => ({
+        id: room.id,
+        name: room.name,
+        template: room.template,
+        items: deserializeRoomItems(room.items),
+      })),
+      adjacency: state.home.adjacency ?? [],
+      shared: state.home.shared ?? [...DEFAULT_SHARED_ITEMS],
+    };
+    const active = home.rooms.some((r) => r.id === state.home!.activeRoomId)
+      ? state.home.activeRoomId
+      : home.rooms[0].id;
+    return { home, activeRoomId: active };
+  }
+  const template = state?.selectedTemplate ?? "";
+  const home = createHome({
+    id: 1,
+    name: templateName(template),
+    template,
+    items: deserializeRoomItems(state?.roomItems ?? []),
+  });
+  return { home, activeRoomId: 1 };
+}
+
+export function serializeRoomTemplates(templates: CustomRoomTemplate[]): SerializedRoomTemplate[] {
+  return templates.map((t) => ({
+    id: t.id,
+    name: t.name,
+    items: t.items.map(({ name, weight, tendency }) => ({ name, weight, tendency })),
+  }));
+}
+
+export function deserializeRoomTemplates(templates: SerializedRoomTemplate[]): CustomRoomTemplate[] {
+  return templates.map((t) => ({
+    id: t.id,
+    name: t.name,
+    items: t.items.map((item) => ({
+      name: item.name,
+      color: null,
+      weight: typeof item.weight === "number" ? item.weight : getCatalogWeight(item.name),
+      tendency: item.tendency ?? "any",
+    })),
+  }));
+}
+
+/** Stored custom catalog items, dropping any that can't be repaired */
+export function deserializeCustomCatalog(items: unknown): CatalogItem[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .map((item) => (item && typeof item === "object" ? normalizeCatalogItem(item) : null))
+    .filter((item): item is CatalogItem => item !== null);
+}
@@ -0,0 +1,111 @@
+import chroma from "chroma-js";
+import { mapToGamut, gamutAdjustmentOf } from "./gamut";
+import type { GamutAdjustment } from "./gamut";
+import { toLCH, colorDistance, getWorkingSpace } from "./colorSpace";
+
+/**
+ * Tint and shade ramps.
+ *
+ * A ramp is the fan-deck strip for one palette color: the same hue at
+ * evenly spaced lightness steps, named 50–900 the way design tokens
+ * are. Steps are spaced evenly in CIELAB lightness, so each one looks
+ * like the same amount of change; in OKLab each target is converted to
+ * the OK lightness of a gray that light, so a step means the same thing
+ * in both working spaces. Chroma tapers toward white and black in
+ * proportion to the distance from the base color, and every step is
+ * gamut-mapped at constant hue, so a ramp never drifts in hue the way
+ * RGB mixing with white or black does. The base color itself replaces
+ * the step nearest its lightness.
+ */
+
+export type RampStepName = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+
+/** Target lightness for each step, in CIELAB L (0–100) */
+export const RAMP_LIGHTNESS: Record<RampStepName, number> = {
+  50: 97,
+  100: 92,
+  200: 84,
+  300: 75,
+  400: 65,
+  500: 55,
+  600: 45,
+  700: 36,
+  800: 27,
+  900: 18,
+};
+
+export const RAMP_STEPS = Object.keys(RAMP_LIGHTNESS).map(Number) as RampStepName[];
+
+/** Coarser steps offered to auto-fill, so the search space stays small */
+export const FILL_RAMP_STEPS: RampStepName[] = [100, 300, 500, 700, 900];
+
+export interface RampStep {
+  step: RampStepName;
+  color: chroma.Color;
+  /** True for the step holding the unchanged base color */
+  isBase: boolean;
+  /** Set when the step had to be pulled into sRGB */
+  gamut: GamutAdjustment | null;
+}
+
+/** Ramp colors this close to a palette color add nothing as fill candidates */
+const FILL_DUPLICATE_DELTA_E = 5;
+
+/** A step's target lightness in the current working space */
+function stepLightness(step: RampStepName): number {
+  const L = RAMP_LIGHTNESS[step];
+  return getWorkingSpace() === "lab" ? L : toLCH(chroma.lab(L, 0, 0))[0];
+}
+
+/**
+ * Build the ramp for one color at the given steps (all ten by default),
+ * lightest first. Uses the current working space.
+ */
+export function buildRamp(
+  color: chroma.Color,
+  steps: RampStepName[] = RAMP_STEPS
+): RampStep[] {
+  const [baseL, baseC, h] = toLCH(color);
+  const ordered = [...steps].sort((a, b) => a - b);
+  const targets = ordered.map(stepLightness);
+
+  // The base color takes the step closest to its own lightness
+  let baseIdx = 0;
+  targets.forEach((L, i) => {
+    if (Math.abs(L - baseL) < Math.abs(targets[baseIdx] - baseL)) baseIdx = i;
+  });
+
+  return ordered.map((step, i) => {
+    if (i === baseIdx) {
+      return { step, color, isBase: true, gamut: null };
+    }
+    const L = targets[i];
+    const taper = L > baseL
+      ? (100 - L) / Math.max(1, 100 - baseL)
+      : L / Math.max(1, baseL);
+    const mapped = mapToGamut(L, baseC * Math.min(1, taper), h);
+    return { step, color: mapped, isBase: false, gamut: gamutAdjustmentOf(mapped) };
+  });
+}
+
+/**
+ * A palette plus the tints and shades of each of its colors, for use as
+ * auto-fill candidates. The palette's own colors come first; ramp steps
+ * that nearly duplicate a color already in the list are dropped.
+ */
+export function expandWithRamps(
+  palette: chroma.Color[],
+  steps: RampStepName[] = FILL_RAMP_STEPS
+): chroma.Color[] {
+  const expanded = [...palette];
+  for (const color of palette) {
+    for (const { color: tint, isBase } of buildRamp(color, steps)) {
+      if (isBase) continue;
+      const duplicate = expanded.some(
+        (c) => colorDistance(c, tint) < FILL_DUPLICATE_DELTA_E
+      );
+      if (!duplicate) expanded.push(tint);
+    }
+  }
+  return expanded;
+}
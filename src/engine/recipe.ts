@@ -0,0 +1,155 @@
+import chroma from "chroma-js";
+import { generatePalette, HARMONY_LABELS } from "./harmonies";
+import type {
+  GeneratedPalette,
+  GenerationConstraints,
+  HarmonyMode,
+  HueRange,
+  TemperatureBias,
+} from "./harmonies";
+import { getWorkingSpace, setWorkingSpace } from "./colorSpace";
+import type { WorkingSpace } from "./colorSpace";
+
+/**
+ * Palette recipes.
+ *
+ * Generation is fully deterministic given its inputs, so a suggestion
+ * can be stored as the inputs instead of the output: batch seed,
+ * variation index, mode, color count, the locked colors, constraints
+ * and working space. A recipe encodes to a short dot-separated string
+ * that can be shared and pasted back to rebuild the exact palette:
+ *
+ *   cg1.analogous.4.lq2v8k0f.2.b5651d-f5f0e8.15-97-55-n.lab
+ *
+ * Fields, in order: format version, mode, count, seed (base 36),
+ * variation, locked hexes ("-" separated, empty if none), constraints
+ * (minL-maxL-maxChroma-bias, then any excluded hue arcs as from~to),
+ * working space.
+ */
+
+export interface PaletteRecipe {
+  seed: number;
+  variation: number;
+  mode: HarmonyMode;
+  count: number;
+  /** Locked input colors as 6-digit hex, in entry order */
+  locked: string[];
+  constraints: GenerationConstraints;
+  workingSpace: WorkingSpace;
+}
+
+const VERSION = "cg1";
+
+const BIAS_CODES: Record<TemperatureBias, string> = {
+  none: "n",
+  warm: "w",
+  cool: "c",
+};
+
+const SPACE_CODES: Record<WorkingSpace, string> = {
+  lab: "lab",
+  oklab: "ok",
+};
+
+function decodeKey<K extends string>(codes: Record<K, string>, code: string): K | null {
+  const match = (Object.keys(codes) as K[]).find((k) => codes[k] === code);
+  return match ?? null;
+}
+
+function encodeConstraints(c: GenerationConstraints): string {
+  const parts = [c.minL, c.maxL, c.maxChroma].map((n) => String(Math.round(n)));
+  parts.push(BIAS_CODES[c.bias]);
+  for (const r of c.excludedHues) parts.push(`${Math.round(r.from)}~${Math.round(r.to)}`);
+  return parts.join("-");
+}
+
+function decodeConstraints(field: string): GenerationConstraints | null {
+  const [minL, maxL, maxChroma, bias, ...arcs] = field.split("-");
+  const numbers = [minL, maxL, maxChroma].map(Number);
+  if (numbers.some((n) => !Number.isFinite(n))) return null;
+  const decodedBias = decodeKey(BIAS_CODES, bias ?? "");
+  if (!decodedBias) return null;
+
+  const excludedHues: HueRange[] = [];
+  for (const arc of arcs) {
+    const [from, to] = arc.split("~").map(Number);
+    if (!Number.isFinite(from) || !Number.isFinite(to)) return null;
+    excludedHues.push({ from, to });
+  }
+  return {
+    minL: numbers[0],
+    maxL: numbers[1],
+    maxChroma: numbers[2],
+    excludedHues,
+    bias: decodedBias,
+  };
+}
+
+export function encodeRecipe(recipe: PaletteRecipe): string {
+  return [
+    VERSION,
+    recipe.mode,
+    String(recipe.count),
+    recipe.seed.toString(36),
+    String(recipe.variation),
+    recipe.locked.map((hex) => hex.replace("#", "").toLowerCase()).join("-"),
+    encodeConstraints(recipe.constraints),
+    SPACE_CODES[recipe.workingSpace],
+  ].join(".");
+}
+
+/**
+ * Parse a recipe string. Returns null if it is malformed or from a
+ * format version this build doesn't know.
+ */
+export function decodeRecipe(text: string): PaletteRecipe | null {
+  const fields = text.trim().split(".");
+  if (fields.length !== 8 || fields[0] !== VERSION) return null;
+  const [, mode, count, seed, variation, locked, constraints, space] = fields;
+
+  if (!Object.keys(HARMONY_LABELS).includes(mode)) return null;
+  const parsedCount = Number(count);
+  const parsedSeed = parseInt(seed, 36);
+  const parsedVariation = Number(variation);
+  if (!Number.isInteger(parsedCount) || parsedCount < 1) return null;
+  if (!Number.isFinite(parsedSeed)) return null;
+  if (!Number.isInteger(parsedVariation) || parsedVariation < 0) return null;
+
+  const hexes = locked === "" ? [] : locked.split("-");
+  if (hexes.some((h) => !/^[0-9a-f]{6}$/i.test(h))) return null;
+
+  const parsedConstraints = decodeConstraints(constraints);
+  const workingSpace = decodeKey(SPACE_CODES, space);
+  if (!parsedConstraints || !workingSpace) return null;
+
+  return {
+    seed: parsedSeed,
+    variation: parsedVariation,
+    mode: mode as HarmonyMode,
+    count: parsedCount,
+    locked: hexes.map((h) => `#${h.toLowerCase()}`),
+    constraints: parsedConstraints,
+    workingSpace,
+  };
+}
+
+/**
+ * Rebuild the palette a recipe describes. Runs in the recipe's working
+ * space and restores the current one afterwards.
+ */
+export function regenerateFromRecipe(recipe: PaletteRecipe): GeneratedPalette {
+  const previous = getWorkingSpace();
+  setWorkingSpace(recipe.workingSpace);
+  try {
+    return generatePalette(
+      recipe.locked.map((hex) => chroma(hex)),
+      recipe.mode,
+      recipe.count,
+      recipe.variation,
+      recipe.seed,
+      recipe.constraints
+    );
+  } finally {
+    setWorkingSpace(previous);
+  }
+}
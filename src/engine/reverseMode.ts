@@ -0,0 +1,139 @@
+import chroma from "chroma-js";
+import type { RoomItem } from "./roomTemplates";
+import { generatePalette, HARMONY_LABELS, DEFAULT_CONSTRAINTS } from "./harmonies";
+import type { GamutAdjustment } from "./gamut";
+import type { GenerationConstraints, HarmonyMode } from "./harmonies";
+import { autoFillRoom, computeHarmonyScore } from "./roomAssigner";
+import type { FillAlgorithm } from "./roomAssigner";
+import { fillPatterns, roomColorComponents } from "./patterns";
+import { applyAnchors } from "./anchors";
+import type { AnchorSettings } from "./anchors";
+import { expandWithRamps } from "./ramps";
+import { paletteDistance } from "./paletteQuality";
+import { getWorkingSpace } from "./colorSpace";
+import type { PaletteRecipe } from "./recipe";
+
+/**
+ * Reverse mode: design around what's already there.
+ *
+ * Items that already have a color — the floors, the countertop, the
+ * couch you're keeping — are fixed. Their colors become the locked
+ * inputs to palette generation, each generated palette fills the open
+ * items, and candidates are ranked by the computeHarmonyScore the
+ * finished room gets. What the winner assigns to the open items is the
+ * shopping and painting list.
+ */
+
+export interface ReverseCandidate {
+  /** Generated colors, without the fixed ones */
+  colors: chroma.Color[];
+  gamut: (GamutAdjustment | null)[];
+  /** The room with every open item filled */
+  items: RoomItem[];
+  /** Harmony of the finished room */
+  score: number;
+  recipe: PaletteRecipe;
+}
+
+export interface ReverseOptions {
+  /** Harmony modes to try (default: all) */
+  modes?: HarmonyMode[];
+  /** Colors per generated palette (default 4) */
+  count?: number;
+  /** Variations tried per mode (default 3) */
+  variations?: number;
+  /** Candidates returned (default 4) */
+  topN?: number;
+  seed?: number;
+  algorithm?: FillAlgorithm;
+  constraints?: GenerationConstraints;
+  /** Colors the room's palette always includes (the base colors) */
+  context?: chroma.Color[];
+  anchors?: AnchorSettings;
+  /** Fill from each palette color's tints and shades too */
+  ramps?: boolean;
+  /** Candidates whose palettes are closer than this are skipped (default 6) */
+  minDistance?: number;
+}
+
+const ALL_MODES = Object.keys(HARMONY_LABELS) as HarmonyMode[];
+
+/**
+ * Colors of the items that already have one, patterns included. Taken
+ * through hex, like the Palette tab's locked colors, so a candidate's
+ * recipe rebuilds exactly the same palette.
+ */
+export function fixedColors(items: RoomItem[]): chroma.Color[] {
+  const hexes = new Set(roomColorComponents(items).map((c) => c.color.hex()));
+  return [...hexes].map((hex) => chroma(hex));
+}
+
+/**
+ * Generate palettes around the room's fixed items and rank them by the
+ * finished room's harmony. The palette each candidate is scored against
+ * is the one the room would use once it's pinned: base colors plus the
+ * generated colors, with the anchor policy applied.
+ */
+export function generateAroundFixed(
+  items: RoomItem[],
+  options: ReverseOptions = {}
+): ReverseCandidate[] {
+  const {
+    modes = ALL_MODES,
+    count = 4,
+    variations = 3,
+    topN = 4,
+    seed = 0,
+    algorithm = "surface-area",
+    constraints = DEFAULT_CONSTRAINTS,
+    context = [],
+    anchors = { policy: "none", custom: [] },
+    ramps = false,
+    minDistance = 6,
+  } = options;
+  if (!items.some((item) => item.color === null)) return [];
+
+  const fixed = fixedColors(items);
+  const space = getWorkingSpace();
+  const pool: ReverseCandidate[] = [];
+
+  for (const mode of modes) {
+    for (let variation = 0; variation < variations; variation++) {
+      const generated = generatePalette(fixed, mode, count, variation, seed, constraints);
+      const palette = applyAnchors([...context, ...generated.colors], anchors, constraints).colors;
+      const fillFrom = ramps ? expandWithRamps(palette) : palette;
+      const filled = fillPatterns(autoFillRoom(items, fillFrom, algorithm).items, fillFrom, algorithm);
+      const components = roomColorComponents(filled);
+      pool.push({
+        ...generated,
+        items: filled,
+        score: computeHarmonyScore(
+          components.map((c) => c.color),
+          algorithm,
+          palette,
+          components.map((c) => c.weight),
+          space
+        ),
+        recipe: {
+          seed,
+          variation,
+          mode,
+          count,
+          locked: fixed.map((c) => c.hex()),
+          constraints,
+          workingSpace: space,
+        },
+      });
+    }
+  }
+
+  pool.sort((a, b) => b.score - a.score);
+  const kept: ReverseCandidate[] = [];
+  for (const candidate of pool) {
+    if (kept.length >= topN) break;
+    if (kept.every((k) => paletteDistance(k.colors, candidate.colors) >= minDistance)) {
+      kept.push(candidate);
+    }
+  }
+  return kept;
+}
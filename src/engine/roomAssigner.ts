@@ -1,27 +1,9 @@
 import chroma from "chroma-js";
-import type { RoomItem } from "./roomTemplates";
-
-// ─── Weight helpers ───────────────────────────────────────────────
-
-/**
- * Expand a color array by repeating each color according to its weight.
- * Weight is a continuous 1-10 scale from the item catalog.
- * This makes prominent items contribute more to statistical measures.
- */
-function expandByWeights(
-  colors: chroma.Color[],
-  weights?: number[]
-): chroma.Color[] {
-  if (!weights || weights.length !== colors.length) return colors;
-  const expanded: chroma.Color[] = [];
-  for (let i = 0; i < colors.length; i++) {
-    const reps = Math.max(1, Math.round(weights[i]));
-    for (let j = 0; j < reps; j++) {
-      expanded.push(colors[i]);
-    }
-  }
-  return expanded;
-}
+import type { RoomItem, Tendency } from "./roomTemplates";
+import { TENDENCY_LABELS } from "./roomTemplates";
+import { getWorkingSpace, toLCH, fromLCH } from "./colorSpace";
+import type { WorkingSpace } from "./colorSpace";
+import { mapToGamut } from "./gamut";
 
 export type FillAlgorithm =
   | "surface-area"
@@ -62,34 +44,344 @@ const ALGORITHM_WEIGHTS: Record<FillAlgorithm, CohesionWeights> = {
  * Analyze the palette's hue clusters. This is the "allowed" hue structure.
  * Room colors that fall within these clusters are cohesive.
  * Room colors outside all clusters are introducing new hue families.
+ * Hues are measured in the working space unless `space` says otherwise.
  */
-function getPaletteHueClusters(palette: chroma.Color[]): number[][] {
-  const chromatic = palette.filter((c) => c.lch()[1] > 8);
-  if (chromatic.length === 0) return [];
+function getPaletteHueClusters(
+  palette: chroma.Color[],
+  space: WorkingSpace = getWorkingSpace()
+): number[][] {
+  const hues = palette.map((c) => toLCH(c, space)[2]);
+  return getPaletteHueFamilies(palette, space).map((family) => family.map((i) => hues[i]));
+}
 
-  const hues = chromatic.map((c) => c.lch()[2] || 0);
-  const clusters: number[][] = [];
+/**
+ * The same clusters as palette indices, for callers that need to know
+ * which colors belong to a family rather than compare recomputed hues.
+ */
+function getPaletteHueFamilies(
+  palette: chroma.Color[],
+  space: WorkingSpace = getWorkingSpace()
+): number[][] {
+  const lch = palette.map((c) => toLCH(c, space));
+  const clusters: { hues: number[]; members: number[] }[] = [];
 
-  for (const h of hues) {
-    let added = false;
+  lch.forEach(([, C, h], i) => {
+    if (C <= 8) return;
     for (const cluster of clusters) {
-      const center = cluster.reduce((s, v) => s + v, 0) / cluster.length;
+      const center = cluster.hues.reduce((s, v) => s + v, 0) / cluster.hues.length;
       const dist = Math.min(Math.abs(h - center), 360 - Math.abs(h - center));
       if (dist < 45) {
-        cluster.push(h);
-        added = true;
-        break;
+        cluster.hues.push(h);
+        cluster.members.push(i);
+        return;
       }
     }
-    if (!added) {
-      clusters.push([h]);
+    clusters.push({ hues: [h], members: [i] });
+  });
+
+  return clusters.map((c) => c.members);
+}
+
+// ─── Cohesion-Based Harmony Score ─────────────────────────────────
+
+export const COMPONENT_LABELS: Record<keyof CohesionWeights, string> = {
+  hueCohesion: "Hue cohesion",
+  saturationCoherence: "Saturation coherence",
+  lightnessReasonableness: "Lightness balance",
+};
+
+export interface HarmonyComponent {
+  key: keyof CohesionWeights;
+  label: string;
+  /** Sub-score on a 0-100 scale */
+  score: number;
+  /** Weight this fill algorithm gives the sub-score */
+  weight: number;
+  /** score × weight — the points this sub-score adds to the total */
+  contribution: number;
+}
+
+export interface HueClusterInfo {
+  /** Mean hue of the cluster in LCH degrees */
+  center: number;
+  hues: number[];
+}
+
+/** A hole in the room's tonal range that cost lightness points. */
+export interface TonalGap {
+  from: number;
+  to: number;
+  penalty: number;
+}
+
+/** How one input color sits relative to the hue clusters. */
+export interface ItemHueFit {
+  index: number;
+  /** null for near-neutral colors, which don't take part in hue cohesion */
+  hue: number | null;
+  /** Degrees to the nearest cluster center */
+  distance: number | null;
+  /** 0-100 hue fit (100 = on a cluster center) */
+  fit: number | null;
+  /** True when the hue is outside every palette cluster */
+  outside: boolean;
+}
+
+export interface HarmonyBreakdown {
+  score: number;
+  components: HarmonyComponent[];
+  /** Working space the hues below are measured in */
+  space: WorkingSpace;
+  /** Palette clusters when a palette is given, otherwise the room's own */
+  clusters: HueClusterInfo[];
+  clusterSource: "palette" | "room";
+  gaps: TonalGap[];
+  /** Points lost because the room's lightness range is too flat */
+  flatPenalty: number;
+  /** Points lost to uneven spacing between lightness steps */
+  spacingPenalty: number;
+  chromaStdDev: number;
+  items: ItemHueFit[];
+  /** Indices of colors whose hue falls outside every palette cluster */
+  outliers: number[];
+}
+
+/** Hue distance at which a color no longer belongs to a cluster */
+const CLUSTER_RADIUS = 45;
+
+function clusterCenter(cluster: number[]): number {
+  return cluster.reduce((s, v) => s + v, 0) / cluster.length;
+}
+
+function hueGap(a: number, b: number): number {
+  return Math.min(Math.abs(a - b), 360 - Math.abs(a - b));
+}
+
+// ─── Weighted samples ─────────────────────────────────────────────
+
+/**
+ * One scored color. Lightness, chroma, hue and palette fit are computed
+ * once when the sample is made, so adding or removing a color never
+ * re-converts the rest of the room.
+ *
+ * Weight is the item's catalog weight (a continuous 1-10 scale). Every
+ * statistic below is a true weighted statistic over samples — an item
+ * of weight 7 counts seven times as much as one of weight 1 without
+ * being copied seven times.
+ */
+interface Sample {
+  /** Position of the color in the caller's array */
+  index: number;
+  L: number;
+  C: number;
+  H: number;
+  weight: number;
+  /** Degrees to the nearest palette cluster (null: neutral or no palette) */
+  distance: number | null;
+}
+
+/** Running weighted sums, updated in O(1) as samples come and go. */
+interface Totals {
+  weight: number;
+  chroma: number;
+  chromaSq: number;
+  chromaticCount: number;
+  chromaticWeight: number;
+  fit: number;
+}
+
+/**
+ * Pre-digested room for repeated scoring: samples sorted by lightness
+ * plus running totals. Build it once with prepareHarmony(), then ask
+ * "what if I add this color" or "what if I drop that item" without
+ * recomputing from scratch.
+ */
+export interface HarmonyState {
+  algorithm: FillAlgorithm;
+  /** Space the samples and clusters were measured in */
+  space: WorkingSpace;
+  paletteClusters: number[][];
+  /** Samples sorted by ascending lightness (see bySampleOrder) */
+  samples: Sample[];
+  totals: Totals;
+}
+
+function hueFit(distance: number): number {
+  // Continuous: 0 dist → 100, 50+ dist → 0
+  return Math.max(0, 100 - distance * 2);
+}
+
+function makeSample(
+  color: chroma.Color,
+  weight: number,
+  index: number,
+  paletteClusters: number[][],
+  space: WorkingSpace
+): Sample {
+  const [L, C, h] = toLCH(color, space);
+  let distance: number | null = null;
+  if (C > 8 && paletteClusters.length > 0) {
+    distance = Infinity;
+    for (const cluster of paletteClusters) {
+      distance = Math.min(distance, hueGap(h, clusterCenter(cluster)));
     }
   }
+  return { index, L, C, H: h, weight: weight > 0 ? weight : 1, distance };
+}
 
-  return clusters;
+function addToTotals(totals: Totals, s: Sample, sign: 1 | -1): Totals {
+  const chromatic = s.C > 8;
+  return {
+    weight: totals.weight + sign * s.weight,
+    chroma: totals.chroma + sign * s.weight * s.C,
+    chromaSq: totals.chromaSq + sign * s.weight * s.C * s.C,
+    chromaticCount: totals.chromaticCount + (chromatic ? sign : 0),
+    chromaticWeight: totals.chromaticWeight + (chromatic ? sign * s.weight : 0),
+    fit: totals.fit + (s.distance !== null ? sign * s.weight * hueFit(s.distance) : 0),
+  };
 }
 
-// ─── Cohesion-Based Harmony Score ─────────────────────────────────
+const EMPTY_TOTALS: Totals = {
+  weight: 0,
+  chroma: 0,
+  chromaSq: 0,
+  chromaticCount: 0,
+  chromaticWeight: 0,
+  fit: 0,
+};
+
+/**
+ * Lightness order, ties broken by weight. Tonal gaps weigh each pair of
+ * neighbours, so without the tie-break two equally light items would
+ * score differently depending on which came first in the room.
+ */
+function bySampleOrder(a: Sample, b: Sample): number {
+  return a.L - b.L || a.weight - b.weight;
+}
+
+/**
+ * Build a reusable scoring state. Weights are used as given (missing or
+ * mismatched weights count every color as 1). Colors are measured in
+ * the global working space unless `space` is given.
+ */
+export function prepareHarmony(
+  colors: chroma.Color[],
+  algorithm: FillAlgorithm = "surface-area",
+  palette: chroma.Color[] = [],
+  weights?: number[],
+  space: WorkingSpace = getWorkingSpace()
+): HarmonyState {
+  const paletteClusters = getPaletteHueClusters(palette, space);
+  const useWeights = weights !== undefined && weights.length === colors.length;
+  const samples = colors
+    .map((c, i) => makeSample(c, useWeights ? weights[i] : 1, i, paletteClusters, space))
+    .sort(bySampleOrder);
+  let totals = EMPTY_TOTALS;
+  for (const s of samples) totals = addToTotals(totals, s, 1);
+  return { algorithm, space, paletteClusters, samples, totals };
+}
+
+/**
+ * Score the prepared room with one more color added. Only the new
+ * color is converted; the rest reuses the prepared samples.
+ */
+export function scoreWithColor(
+  state: HarmonyState,
+  color: chroma.Color,
+  weight: number = 1
+): number {
+  const extra = makeSample(color, weight, state.samples.length, state.paletteClusters, state.space);
+  const samples = [...state.samples];
+  let at = samples.findIndex((s) => bySampleOrder(s, extra) > 0);
+  if (at < 0) at = samples.length;
+  samples.splice(at, 0, extra);
+  return evaluateSamples(
+    samples,
+    addToTotals(state.totals, extra, 1),
+    state.paletteClusters,
+    state.algorithm
+  ).score;
+}
+
+/**
+ * Score the prepared room with the color at `index` (its position in
+ * the array passed to prepareHarmony) left out.
+ */
+export function scoreWithoutIndex(state: HarmonyState, index: number): number {
+  const removed = state.samples.find((s) => s.index === index);
+  if (!removed) return scoreState(state);
+  return evaluateSamples(
+    state.samples.filter((s) => s !== removed),
+    addToTotals(state.totals, removed, -1),
+    state.paletteClusters,
+    state.algorithm
+  ).score;
+}
+
+export function scoreState(state: HarmonyState): number {
+  return evaluateSamples(
+    state.samples,
+    state.totals,
+    state.paletteClusters,
+    state.algorithm
+  ).score;
+}
+
+// ─── Sub-scores ───────────────────────────────────────────────────
+
+interface Evaluation {
+  score: number;
+  hue: number;
+  sat: number;
+  light: number;
+  roomClusters: number[][];
+  chromaStdDev: number;
+  flatPenalty: number;
+  gaps: TonalGap[];
+  spacingPenalty: number;
+}
+
+function evaluateSamples(
+  samples: Sample[],
+  totals: Totals,
+  paletteClusters: number[][],
+  algorithm: FillAlgorithm
+): Evaluation {
+  if (samples.length < 2) {
+    return {
+      score: 100,
+      hue: 100,
+      sat: 100,
+      light: 100,
+      roomClusters: [],
+      chromaStdDev: 0,
+      flatPenalty: 0,
+      gaps: [],
+      spacingPenalty: 0,
+    };
+  }
+
+  const w = ALGORITHM_WEIGHTS[algorithm];
+  const hue = hueCohesionScore(samples, totals, paletteClusters);
+  const sat = saturationCoherenceScore(totals);
+  const light = lightnessReasonablenessScore(samples);
+
+  const score = Math.max(0, Math.min(100, Math.round(
+    hue.score * w.hueCohesion + sat.score * w.saturationCoherence + light.score * w.lightnessReasonableness
+  )));
+
+  return {
+    score,
+    hue: hue.score,
+    sat: sat.score,
+    light: light.score,
+    roomClusters: hue.roomClusters,
+    chromaStdDev: sat.stdDev,
+    flatPenalty: light.flatPenalty,
+    gaps: light.gaps,
+    spacingPenalty: light.spacingPenalty,
+  };
+}
 
 /**
  * Measures how cohesive a set of room colors looks, relative to the
@@ -100,20 +392,68 @@ export function computeHarmonyScore(
   colors: chroma.Color[],
   algorithm: FillAlgorithm = "surface-area",
   palette: chroma.Color[] = [],
-  weights?: number[]
+  weights?: number[],
+  space: WorkingSpace = getWorkingSpace()
 ): number {
-  if (colors.length < 2) return 100;
+  return scoreState(prepareHarmony(colors, algorithm, palette, weights, space));
+}
 
-  const expanded = expandByWeights(colors, weights);
-  const paletteClusters = getPaletteHueClusters(palette);
+/**
+ * The same score as computeHarmonyScore, with the reasoning behind it:
+ * each weighted sub-score, the hue clusters colors were measured
+ * against, the tonal gaps that cost points, and per-color hue fit so
+ * callers can name the items that fall outside every cluster.
+ */
+export function computeHarmonyBreakdown(
+  colors: chroma.Color[],
+  algorithm: FillAlgorithm = "surface-area",
+  palette: chroma.Color[] = [],
+  weights?: number[],
+  space: WorkingSpace = getWorkingSpace()
+): HarmonyBreakdown {
+  const state = prepareHarmony(colors, algorithm, palette, weights, space);
+  const { paletteClusters } = state;
   const w = ALGORITHM_WEIGHTS[algorithm];
-  const hue = hueCohesionScore(expanded, paletteClusters);
-  const sat = saturationCoherenceScore(expanded);
-  const light = lightnessReasonablenessScore(expanded);
+  const ev = evaluateSamples(state.samples, state.totals, paletteClusters, algorithm);
 
-  return Math.max(0, Math.min(100, Math.round(
-    hue * w.hueCohesion + sat * w.saturationCoherence + light * w.lightnessReasonableness
-  )));
+  const subScores: Record<keyof CohesionWeights, number> = {
+    hueCohesion: ev.hue,
+    saturationCoherence: ev.sat,
+    lightnessReasonableness: ev.light,
+  };
+  const components = (Object.keys(subScores) as (keyof CohesionWeights)[]).map((key) => ({
+    key,
+    label: COMPONENT_LABELS[key],
+    score: subScores[key],
+    weight: w[key],
+    contribution: subScores[key] * w[key],
+  }));
+
+  const items: ItemHueFit[] = [...state.samples]
+    .sort((a, b) => a.index - b.index)
+    .map((s) => ({
+      index: s.index,
+      hue: s.C > 8 ? s.H : null,
+      distance: s.distance,
+      fit: s.distance !== null ? hueFit(s.distance) : null,
+      outside: s.distance !== null && s.distance >= CLUSTER_RADIUS,
+    }));
+
+  const clusters = paletteClusters.length > 0 ? paletteClusters : ev.roomClusters;
+
+  return {
+    score: ev.score,
+    components,
+    space: state.space,
+    clusters: clusters.map((hues) => ({ center: clusterCenter(hues), hues })),
+    clusterSource: paletteClusters.length > 0 ? "palette" : "room",
+    gaps: ev.gaps,
+    flatPenalty: ev.flatPenalty,
+    spacingPenalty: ev.spacingPenalty,
+    chromaStdDev: ev.chromaStdDev,
+    items,
+    outliers: items.filter((f) => f.outside).map((f) => f.index),
+  };
 }
 
 /**
@@ -123,106 +463,117 @@ export function computeHarmonyScore(
  * If no palette context, falls back to absolute cluster counting.
  */
 function hueCohesionScore(
-  colors: chroma.Color[],
+  samples: Sample[],
+  totals: Totals,
   paletteClusters: number[][]
-): number {
-  const chromatic = colors.filter((c) => c.lch()[1] > 8);
-  if (chromatic.length <= 1) return 100;
-
-  const hues = chromatic.map((c) => c.lch()[2] || 0);
+): { score: number; roomClusters: number[][] } {
+  if (totals.chromaticCount === 0) return { score: 100, roomClusters: [] };
 
-  // If we have palette context, measure how well room hues
-  // fit within the palette's established clusters.
-  // Continuous: each color gets a fit score based on distance to nearest cluster.
+  // If we have palette context, each chromatic color's fit to its
+  // nearest palette cluster is averaged, weighted by item weight.
   if (paletteClusters.length > 0) {
-    let totalFit = 0;
-
-    for (const h of hues) {
-      let bestDist = Infinity;
-      for (const cluster of paletteClusters) {
-        const center = cluster.reduce((s, v) => s + v, 0) / cluster.length;
-        const dist = Math.min(Math.abs(h - center), 360 - Math.abs(h - center));
-        bestDist = Math.min(bestDist, dist);
-      }
-      // Continuous: 0 dist → 100, 50+ dist → 0
-      totalFit += Math.max(0, 100 - bestDist * 2);
-    }
-
-    return totalFit / hues.length;
+    return { score: totals.fit / totals.chromaticWeight, roomClusters: [] };
   }
 
-  // Fallback: absolute cluster counting (no palette context)
-  const clusters: number[][] = [];
-  for (const h of hues) {
+  // Fallback: absolute cluster counting (no palette context).
+  // A single hue can't clash with itself.
+  if (totals.chromaticCount <= 1) return { score: 100, roomClusters: [] };
+
+  // Cluster centers are weight-averaged so heavy items anchor them.
+  const clusters: { hues: number[]; weight: number; sum: number }[] = [];
+  const byIndex = [...samples].sort((a, b) => a.index - b.index);
+  for (const s of byIndex) {
+    if (s.C <= 8) continue;
     let added = false;
     for (const cluster of clusters) {
-      const center = cluster.reduce((s, v) => s + v, 0) / cluster.length;
-      const dist = Math.min(Math.abs(h - center), 360 - Math.abs(h - center));
-      if (dist < 40) {
-        cluster.push(h);
+      if (hueGap(s.H, cluster.sum / cluster.weight) < 40) {
+        cluster.hues.push(s.H);
+        cluster.weight += s.weight;
+        cluster.sum += s.H * s.weight;
         added = true;
         break;
       }
     }
     if (!added) {
-      clusters.push([h]);
+      clusters.push({ hues: [s.H], weight: s.weight, sum: s.H * s.weight });
     }
   }
 
   const n = clusters.length;
-  if (n <= 2) return 100;
-  if (n === 3) return 75;
-  if (n === 4) return 50;
-  return Math.max(0, 40 - (n - 4) * 15);
+  let score: number;
+  if (n <= 2) score = 100;
+  else if (n === 3) score = 75;
+  else if (n === 4) score = 50;
+  else score = Math.max(0, 40 - (n - 4) * 15);
+  return { score, roomClusters: clusters.map((c) => c.hues) };
 }
 
-function saturationCoherenceScore(colors: chroma.Color[]): number {
-  const chromas = colors.map((c) => c.lch()[1]);
-  const mean = chromas.reduce((s, c) => s + c, 0) / chromas.length;
-  const variance = chromas.reduce((s, c) => s + (c - mean) ** 2, 0) / chromas.length;
+function saturationCoherenceScore(totals: Totals): { score: number; stdDev: number } {
+  const mean = totals.chroma / totals.weight;
+  const variance = Math.max(0, totals.chromaSq / totals.weight - mean * mean);
   const stdDev = Math.sqrt(variance);
 
   // Continuous scoring: smooth decay from 100 at stdDev=0 to ~20 at stdDev=50
-  if (stdDev <= 5) return 100;
-  return Math.max(0, Math.min(100, 105 - stdDev * 1.8));
+  if (stdDev <= 5) return { score: 100, stdDev };
+  return { score: Math.max(0, Math.min(100, 105 - stdDev * 1.8)), stdDev };
 }
 
-function lightnessReasonablenessScore(colors: chroma.Color[]): number {
-  const Ls = colors.map((c) => c.lab()[0]);
-  const sorted = [...Ls].sort((a, b) => a - b);
-  const range = sorted[sorted.length - 1] - sorted[0];
+/**
+ * Lightness is about which tones are present, so gaps are measured
+ * between items rather than between weighted copies. Weights still
+ * matter for spacing: a gap bordered by heavy items (floor to wall)
+ * counts more toward unevenness than one between two small accents.
+ */
+function lightnessReasonablenessScore(sorted: Sample[]): {
+  score: number;
+  flatPenalty: number;
+  gaps: TonalGap[];
+  spacingPenalty: number;
+} {
+  const range = sorted[sorted.length - 1].L - sorted[0].L;
 
   // Wide range is NORMAL in a room (light walls + dark wood).
   // Only penalize if the room is too flat (everything the same lightness).
   let score = 100;
-  if (range < 15) {
-    score -= (15 - range) * 3;
-  }
+  const flatPenalty = range < 15 ? (15 - range) * 3 : 0;
+  score -= flatPenalty;
 
   // Penalize large gaps between adjacent lightness values.
   // A gap > 20 means there's a "hole" in the tonal range -- no color
   // bridges between the dark and light zones.
-  const gaps: number[] = [];
+  const costly: TonalGap[] = [];
+  let gapWeight = 0;
+  let gapSum = 0;
+  let gapSqSum = 0;
   for (let i = 1; i < sorted.length; i++) {
-    gaps.push(sorted[i] - sorted[i - 1]);
-  }
-
-  for (const gap of gaps) {
+    const gap = sorted[i].L - sorted[i - 1].L;
+    const weight = (sorted[i].weight + sorted[i - 1].weight) / 2;
+    gapWeight += weight;
+    gapSum += weight * gap;
+    gapSqSum += weight * gap * gap;
     if (gap > 20) {
-      score -= (gap - 20) * 1.2;
+      const penalty = (gap - 20) * 1.2;
+      costly.push({ from: sorted[i - 1].L, to: sorted[i].L, penalty });
+      score -= penalty;
     }
   }
 
   // Reward even spacing: a room with smooth tonal transitions
   // looks more cohesive than one with clusters and voids.
-  if (gaps.length > 1) {
-    const meanGap = gaps.reduce((s, g) => s + g, 0) / gaps.length;
-    const gapVariance = gaps.reduce((s, g) => s + (g - meanGap) ** 2, 0) / gaps.length;
-    const gapStdDev = Math.sqrt(gapVariance);
-    score -= gapStdDev * 0.4;
+  let spacingPenalty = 0;
+  if (sorted.length > 2) {
+    const meanGap = gapSum / gapWeight;
+    const gapStdDev = Math.sqrt(Math.max(0, gapSqSum / gapWeight - meanGap * meanGap));
+    spacingPenalty = gapStdDev * 0.4;
+    score -= spacingPenalty;
   }
 
-  return Math.max(0, Math.min(100, score));
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    flatPenalty,
+    gaps: costly,
+    spacingPenalty,
+  };
 }
 
 // ─── Candidate scoring for picker ─────────────────────────────────
@@ -254,12 +605,12 @@ export function scoreCandidates(
   for (const h of hueSteps) {
     for (const l of lightnessSteps) {
       for (const c of chromaSteps) {
-        try { generated.push(chroma.lch(l, c, h)); } catch { /* skip */ }
+        try { generated.push(fromLCH(l, c, h)); } catch { /* skip */ }
       }
     }
   }
   for (const l of [25, 40, 55, 70, 85, 95]) {
-    try { generated.push(chroma.lch(l, 3, 0)); } catch { /* skip */ }
+    try { generated.push(fromLCH(l, 3, 0)); } catch { /* skip */ }
   }
 
   const allColors = [...palette];
@@ -269,17 +620,15 @@ export function scoreCandidates(
     if (!seenHexes.has(hex)) { seenHexes.add(hex); allColors.push(c); }
   }
 
+  // The rest of the room is prepared once; each candidate only adds
+  // its own sample on top.
+  const state = prepareHarmony(otherRoomColors, algorithm, palette, otherWeights);
+  const weight = otherWeights ? candidateWeight ?? 2 : 1;
+
   const scored = allColors.map((candidate) => {
-    let score: number;
-    if (otherRoomColors.length === 0) {
-      score = 100;
-    } else {
-      const testColors = [...otherRoomColors, candidate];
-      const testWeights = otherWeights
-        ? [...otherWeights, candidateWeight ?? 2]
-        : undefined;
-      score = computeHarmonyScore(testColors, algorithm, palette, testWeights);
-    }
+    const score = otherRoomColors.length === 0
+      ? 100
+      : scoreWithColor(state, candidate, weight);
     return { color: candidate, score, inPalette: paletteHexes.has(candidate.hex()) };
   });
 
@@ -297,24 +646,130 @@ export function scoreCandidates(
 
 // ─── Per-item score delta ─────────────────────────────────────────
 
-export function itemScoreDelta(
-  color: chroma.Color,
-  allColors: chroma.Color[],
+/**
+ * How much each color contributes to the room score: the full score
+ * minus the score without that one item. Positive = helping. Rooms
+ * with fewer than three colors report 0 for every item.
+ */
+export function computeItemDeltas(
+  colors: chroma.Color[],
   algorithm: FillAlgorithm,
   palette: chroma.Color[] = [],
-  allWeights?: number[],
-  _itemWeight?: number
-): number {
-  const idx = allColors.findIndex((c) => c.hex() === color.hex());
-  const without = allColors.filter((c) => c.hex() !== color.hex());
-  const weightsWithout = allWeights
-    ? allWeights.filter((_, i) => i !== idx)
-    : undefined;
-  if (without.length < 2) return 0;
-  return computeHarmonyScore(allColors, algorithm, palette, allWeights) -
-    computeHarmonyScore(without, algorithm, palette, weightsWithout);
+  weights?: number[],
+  space: WorkingSpace = getWorkingSpace()
+): number[] {
+  if (colors.length < 3) return colors.map(() => 0);
+  const state = prepareHarmony(colors, algorithm, palette, weights, space);
+  const full = scoreState(state);
+  return colors.map((_, i) => full - scoreWithoutIndex(state, i));
+}
+
+// ─── Tendencies ───────────────────────────────────────────────────
+
+/**
+ * Hue families used by the "warmer" / "cooler" tendencies, in LCH
+ * degrees. Reds through yellows read warm; greens through violets
+ * read cool. Anything below MIN_HUE_CHROMA has no usable hue and
+ * counts as neither.
+ */
+const MIN_HUE_CHROMA = 3;
+const BOLD_CHROMA = 30;
+const NEUTRAL_CHROMA = 12;
+
+function isWarm(color: chroma.Color): boolean {
+  const [, C, H] = color.lch();
+  if (C < MIN_HUE_CHROMA) return false;
+  const h = H || 0;
+  return h >= 330 || h <= 100;
+}
+
+function isCool(color: chroma.Color): boolean {
+  const [, C, H] = color.lch();
+  if (C < MIN_HUE_CHROMA) return false;
+  const h = H || 0;
+  return h >= 150 && h <= 300;
+}
+
+/**
+ * Where an item should aim inside its catalog lightness range.
+ * "lighter" and "darker" push the target toward the top or bottom
+ * of the range; every other tendency aims at the midpoint.
+ */
+function tendencyTargetL(range: [number, number], tendency: Tendency): number {
+  const [minL, maxL] = range;
+  if (tendency === "lighter") return minL + (maxL - minL) * 0.8;
+  if (tendency === "darker") return minL + (maxL - minL) * 0.2;
+  return (minL + maxL) / 2;
+}
+
+/**
+ * Whether a color satisfies an item's tendency. Lightness tendencies
+ * are judged against the item's own catalog range, so "lighter" on a
+ * floor still means a floor-appropriate lightness.
+ */
+export function fitsTendency(
+  color: chroma.Color,
+  tendency: Tendency,
+  range: [number, number]
+): boolean {
+  const mid = (range[0] + range[1]) / 2;
+  switch (tendency) {
+    case "lighter":
+      return color.lab()[0] >= mid;
+    case "darker":
+      return color.lab()[0] <= mid;
+    case "warmer":
+      return isWarm(color);
+    case "cooler":
+      return isCool(color);
+    case "neutral":
+      return color.lch()[1] <= NEUTRAL_CHROMA;
+    case "bold":
+      return color.lch()[1] >= BOLD_CHROMA;
+    default:
+      return true;
+  }
+}
+
+const TENDENCY_MISS_REASONS: Record<Tendency, string> = {
+  any: "",
+  lighter: "no palette color sits in the upper half of its lightness range",
+  darker: "no palette color sits in the lower half of its lightness range",
+  warmer: "the palette has no warm-hued color for this item",
+  cooler: "the palette has no cool-hued color for this item",
+  neutral: "the palette has no low-chroma color for this item",
+  bold: "the palette has no high-chroma color for this item",
+};
+
+/** A tendency that auto-fill could not honor with the current palette. */
+export interface UnmetTendency {
+  itemId: number;
+  name: string;
+  tendency: Tendency;
+  reason: string;
 }
 
+export interface AutoFillResult {
+  items: RoomItem[];
+  unmet: UnmetTendency[];
+}
+
+interface LaneItem {
+  idx: number;
+  targetL: number;
+  range: [number, number];
+  tendency: Tendency;
+}
+
+function recordMiss(item: LaneItem, result: RoomItem[], unmet: UnmetTendency[]) {
+  const room = result[item.idx];
+  unmet.push({
+    itemId: room.id,
+    name: room.name,
+    tendency: item.tendency,
+    reason: `${TENDENCY_LABELS[item.tendency]}: ${TENDENCY_MISS_REASONS[item.tendency]}.`,
+  });
+}
 
 // ─── Auto-fill ────────────────────────────────────────────────────
 
@@ -332,6 +787,13 @@ import { getCatalogRole } from "./itemCatalog";
  *
  * Structural colors are passed through neutralizeForStructure() to
  * guarantee low chroma on backgrounds/floors/doors.
+ *
+ * Tendencies steer both lanes: "lighter"/"darker" shift the item's
+ * target lightness, "neutral" moves an accent item into the structural
+ * lane, "bold" moves a structural item into the accent lane, and every
+ * tendency acts as a filter on the colors an item may take. When no
+ * color passes the filter the item falls back to the unconstrained
+ * pick and the miss is reported in the result.
  */
 
 
@@ -340,11 +802,18 @@ import { getCatalogRole } from "./itemCatalog";
  * by lightness, then maps items to evenly-spaced color positions. This
  * distributes available lightness across all items — better than greedy
  * matching when the palette skews dark (most chromatic colors at L<30).
+ *
+ * If the color at an item's position doesn't fit its tendency, the
+ * nearest position that does fit is used instead. If no lane color
+ * fits, the rest of the palette (`reserve`) is searched before the
+ * tendency is reported as unmet.
  */
 function zipByLightness(
-  items: { idx: number; targetL: number }[],
+  items: LaneItem[],
   colors: chroma.Color[],
-  result: RoomItem[]
+  result: RoomItem[],
+  unmet: UnmetTendency[],
+  reserve: chroma.Color[] = []
 ) {
   if (items.length === 0 || colors.length === 0) return;
   items.sort((a, b) => a.targetL - b.targetL);
@@ -352,10 +821,52 @@ function zipByLightness(
   const n = items.length;
   const p = colors.length;
   for (let i = 0; i < n; i++) {
+    const item = items[i];
     const pos = n > 1 ? (i / (n - 1)) * (p - 1) : (p - 1) / 2;
-    const ci = Math.min(Math.round(pos), p - 1);
-    result[items[i].idx] = { ...result[items[i].idx], color: colors[ci] };
+    let ci = Math.min(Math.round(pos), p - 1);
+
+    if (!fitsTendency(colors[ci], item.tendency, item.range)) {
+      let bestIdx = -1;
+      let bestDist = Infinity;
+      for (let j = 0; j < p; j++) {
+        if (!fitsTendency(colors[j], item.tendency, item.range)) continue;
+        const dist = Math.abs(j - pos);
+        if (dist < bestDist) {
+          bestDist = dist;
+          bestIdx = j;
+        }
+      }
+      if (bestIdx >= 0) {
+        ci = bestIdx;
+      } else {
+        const fallback = nearestFitting(reserve, item);
+        if (fallback) {
+          result[item.idx] = { ...result[item.idx], color: fallback };
+          continue;
+        }
+        recordMiss(item, result, unmet);
+      }
+    }
+
+    result[item.idx] = { ...result[item.idx], color: colors[ci] };
+  }
+}
+
+function nearestFitting(
+  colors: chroma.Color[],
+  item: LaneItem
+): chroma.Color | null {
+  let best: chroma.Color | null = null;
+  let bestDist = Infinity;
+  for (const c of colors) {
+    if (!fitsTendency(c, item.tendency, item.range)) continue;
+    const dist = Math.abs(c.lab()[0] - item.targetL);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = c;
+    }
   }
+  return best;
 }
 
 /**
@@ -364,64 +875,118 @@ function zipByLightness(
  * color considered "chromatic" by the palette splitter is desaturated
  * before landing on a structural surface.
  */
-function neutralizeForStructure(color: chroma.Color): chroma.Color {
+export function neutralizeForStructure(color: chroma.Color): chroma.Color {
   const [L] = color.lab();
   const [, C, H] = color.lch();
   if (C <= 12) return color;
-  try {
-    return chroma.lch(L, 5, H || 0);
-  } catch {
-    return color;
-  }
+  return mapToGamut(L, 5, H || 0, "lab");
 }
 
 /**
  * Nearest-target assignment for structural items. Each item picks the
  * color whose lightness is closest to its targetL. Non-depleting: items
  * pick independently so walls and doors can share the same off-white.
+ *
+ * Only colors that fit the item's tendency are considered. If none do,
+ * `reserve` is tried next; failing that the whole pool is used and the
+ * miss is recorded.
  */
 function matchByTargetL(
-  items: { idx: number; targetL: number }[],
+  items: LaneItem[],
   colors: chroma.Color[],
-  result: RoomItem[]
+  result: RoomItem[],
+  unmet: UnmetTendency[],
+  reserve: chroma.Color[] = []
 ) {
   if (items.length === 0 || colors.length === 0) return;
   const pool = colors.map((c) => ({ color: c, L: c.lab()[0] }));
   for (const item of items) {
+    let candidates = pool.filter((entry) =>
+      fitsTendency(entry.color, item.tendency, item.range)
+    );
+    if (candidates.length === 0) {
+      const fallback = nearestFitting(reserve, item);
+      if (fallback) {
+        result[item.idx] = { ...result[item.idx], color: fallback };
+        continue;
+      }
+      candidates = pool;
+      recordMiss(item, result, unmet);
+    }
+
     let bestIdx = 0;
     let bestDist = Infinity;
-    for (let j = 0; j < pool.length; j++) {
-      const dist = Math.abs(pool[j].L - item.targetL);
+    for (let j = 0; j < candidates.length; j++) {
+      const dist = Math.abs(candidates[j].L - item.targetL);
       if (dist < bestDist) {
         bestDist = dist;
         bestIdx = j;
       }
     }
-    result[item.idx] = { ...result[item.idx], color: pool[bestIdx].color };
+    result[item.idx] = { ...result[item.idx], color: candidates[bestIdx].color };
   }
 }
 
+function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return Math.min(d, 360 - d);
+}
+
+/**
+ * Cap a color's chroma while keeping its lightness and hue.
+ */
+function muteTo(color: chroma.Color, maxC: number): chroma.Color {
+  const [L, C, H] = color.lch();
+  if (C <= maxC) return color;
+  return mapToGamut(L, maxC, H || 0, "lab");
+}
+
+interface FillContext {
+  palette: chroma.Color[];
+  chromatic: chroma.Color[];
+  neutral: chroma.Color[];
+  accentItems: LaneItem[];
+  structuralItems: LaneItem[];
+  result: RoomItem[];
+  unmet: UnmetTendency[];
+}
+
+/**
+ * Auto-fill a room using the strategy described by `algorithm`:
+ *
+ * - surface-area: the two-lane fill described above.
+ * - tonal-gradient: one hue family walked across each item's lightness.
+ * - anchor-piece: one statement item, everything else muted and close.
+ * - minimal-palette: the smallest set of colors that covers the room.
+ *
+ * Items that already have a color are left untouched.
+ */
 export function autoFillRoom(
   items: RoomItem[],
   palette: chroma.Color[],
-  _algorithm: FillAlgorithm
-): RoomItem[] {
-  if (palette.length === 0) return items;
+  algorithm: FillAlgorithm
+): AutoFillResult {
+  if (palette.length === 0) return { items, unmet: [] };
   const result = [...items];
+  const unmet: UnmetTendency[] = [];
 
-  // Separate items by role
-  const accentItems: { idx: number; targetL: number }[] = [];
-  const structuralItems: { idx: number; targetL: number }[] = [];
+  // Separate items by role, letting neutral/bold tendencies override it
+  const accentItems: LaneItem[] = [];
+  const structuralItems: LaneItem[] = [];
 
   for (let i = 0; i < result.length; i++) {
     if (result[i].color !== null) continue;
-    const [minL, maxL] = getCatalogLightnessRange(result[i].name);
-    const targetL = (minL + maxL) / 2;
+    const range = getCatalogLightnessRange(result[i].name);
+    const tendency = result[i].tendency ?? "any";
+    const laneItem = { idx: i, targetL: tendencyTargetL(range, tendency), range, tendency };
     const role = getCatalogRole(result[i].name);
-    if (role === "accent" || role === "anchor") {
-      accentItems.push({ idx: i, targetL });
+    const isAccent =
+      tendency === "bold" ||
+      (tendency !== "neutral" && (role === "accent" || role === "anchor"));
+    if (isAccent) {
+      accentItems.push(laneItem);
     } else {
-      structuralItems.push({ idx: i, targetL });
+      structuralItems.push(laneItem);
     }
   }
 
@@ -432,6 +997,43 @@ export function autoFillRoom(
   const neutral = [...palette]
     .filter((c) => c.lch()[1] <= 12);
 
+  const ctx: FillContext = {
+    palette,
+    chromatic,
+    neutral,
+    accentItems,
+    structuralItems,
+    result,
+    unmet,
+  };
+
+  switch (algorithm) {
+    case "tonal-gradient":
+      fillTonalGradient(ctx);
+      break;
+    case "anchor-piece":
+      fillAnchorPiece(ctx);
+      break;
+    case "minimal-palette":
+      fillMinimalPalette(ctx);
+      break;
+    default:
+      fillSurfaceArea(ctx);
+  }
+
+  return { items: result, unmet };
+}
+
+// ─── Fill strategies ──────────────────────────────────────────────
+
+/**
+ * Surface Area: the two-lane fill. Accents get the most diverse
+ * chromatic colors spread across lightness; structural items get
+ * neutrals matched to their expected lightness.
+ */
+function fillSurfaceArea(ctx: FillContext) {
+  const { palette, chromatic, neutral, accentItems, structuralItems, result, unmet } = ctx;
+
   // Select accent colors: pick N most DIVERSE from the chromatic pool.
   // Greedy: start with the most chromatic, then each subsequent pick
   // is the one most visually distinct from all prior picks.
@@ -474,23 +1076,195 @@ export function autoFillRoom(
     matchByTargetL(
       [...accentItems, ...structuralItems],
       palette.map(neutralizeForStructure),
-      result
+      result,
+      unmet
     );
   } else if (structuralColors.length === 0) {
-    zipByLightness(accentItems, [...palette], result);
+    zipByLightness(accentItems, [...palette], result, unmet);
     matchByTargetL(
       structuralItems,
       palette.map(neutralizeForStructure),
-      result
+      result,
+      unmet
     );
   } else {
-    zipByLightness(accentItems, accentColors, result);
+    zipByLightness(accentItems, accentColors, result, unmet, palette);
     matchByTargetL(
       structuralItems,
       structuralColors.map(neutralizeForStructure),
-      result
+      result,
+      unmet
     );
   }
+}
+
+/**
+ * Minimal Palette: reuse as few colors as possible. The room draws
+ * from the darkest and lightest neutral plus one chromatic color (two
+ * for rooms with many accent items). Every item picks from that small
+ * set; the rest of the palette is only touched when an item's tendency
+ * can't be met from the set.
+ */
+function fillMinimalPalette(ctx: FillContext) {
+  const { palette, chromatic, accentItems, structuralItems, result, unmet } = ctx;
+
+  const neutrals = palette
+    .map(neutralizeForStructure)
+    .sort((a, b) => a.lab()[0] - b.lab()[0]);
+  const core: chroma.Color[] = [neutrals[0]];
+  if (neutrals.length > 1 && chroma.deltaE(neutrals[0], neutrals[neutrals.length - 1]) > 5) {
+    core.push(neutrals[neutrals.length - 1]);
+  }
+
+  const accentCount = Math.min(2, Math.ceil(accentItems.length / 3));
+  const accents = chromatic.slice(0, accentCount);
+
+  matchByTargetL(structuralItems, core, result, unmet, neutrals);
+  matchByTargetL(accentItems, [...accents, ...core], result, unmet, palette);
+}
+
+/**
+ * Anchor Piece: one statement item carries the palette's strongest
+ * color. Every other item stays tight around it — neutrals and muted
+ * colors from the statement's hue family — so the statement reads as
+ * the single focal point.
+ *
+ * The statement is the first accent item marked "bold", otherwise the
+ * heaviest accent-lane item.
+ */
+function fillAnchorPiece(ctx: FillContext) {
+  const { palette, chromatic, neutral, accentItems, structuralItems, result, unmet } = ctx;
+
+  if (chromatic.length === 0 || accentItems.length === 0) {
+    fillSurfaceArea(ctx);
+    return;
+  }
+
+  let statement = accentItems.find((item) => item.tendency === "bold");
+  if (!statement) {
+    statement = accentItems.reduce((best, item) =>
+      result[item.idx].weight > result[best.idx].weight ? item : best
+    );
+  }
+
+  // Most chromatic color that sits in the statement's lightness range
+  const [minL, maxL] = statement.range;
+  const inRange = chromatic.filter((c) => {
+    const L = c.lab()[0];
+    return L >= minL && L <= maxL;
+  });
+  const hero = inRange.find((c) => fitsTendency(c, statement.tendency, statement.range))
+    ?? inRange[0]
+    ?? chromatic[0];
+  if (!fitsTendency(hero, statement.tendency, statement.range)) {
+    recordMiss(statement, result, unmet);
+  }
+  result[statement.idx] = { ...result[statement.idx], color: hero };
+
+  // Supporting colors: same hue family as the hero, muted well below it
+  const heroH = hero.lch()[2] || 0;
+  const supportC = Math.min(20, hero.lch()[1] * 0.5);
+  const family = palette
+    .filter((c) => c !== hero)
+    .filter((c) => c.lch()[1] <= 12 || hueDistance(c.lch()[2] || 0, heroH) < 45)
+    .map((c) => muteTo(c, supportC));
+  const supporting = family.length > 0 ? family : neutral;
+
+  const others = accentItems.filter((item) => item !== statement);
+  matchByTargetL(
+    others,
+    supporting.length > 0 ? supporting : palette.map((c) => muteTo(c, supportC)),
+    result,
+    unmet,
+    palette.map((c) => muteTo(c, supportC))
+  );
+  matchByTargetL(
+    structuralItems,
+    (neutral.length > 0 ? neutral : palette).map(neutralizeForStructure),
+    result,
+    unmet,
+    palette.map(neutralizeForStructure)
+  );
+}
+
+/**
+ * Tonal Gradient: pick the palette's dominant hue family and walk it
+ * across lightness. Each item gets that hue at its own target
+ * lightness — reusing a palette color when one is already close, or
+ * deriving a new tone otherwise. Accent items keep the family's
+ * chroma; structural items get a whisper of it.
+ */
+function fillTonalGradient(ctx: FillContext) {
+  const { chromatic, accentItems, structuralItems, result, unmet } = ctx;
+
+  // Auto-fill works in CIELAB regardless of the working space
+  const families = getPaletteHueFamilies(chromatic, "lab");
+  if (families.length === 0) {
+    fillSurfaceArea(ctx);
+    return;
+  }
+
+  // Dominant family = cluster carrying the most total chroma
+  let best = chromatic;
+  let bestChroma = -1;
+  for (const indices of families) {
+    const members = indices.map((i) => chromatic[i]);
+    const total = members.reduce((s, c) => s + c.lch()[1], 0);
+    if (total > bestChroma) {
+      bestChroma = total;
+      best = members;
+    }
+  }
+  const family = best;
+  const familyH = circularMeanHue(family.map((c) => c.lch()[2] || 0));
+  const chromas = family.map((c) => c.lch()[1]).sort((a, b) => a - b);
+  const familyC = chromas[Math.floor(chromas.length / 2)];
+
+  const toneFor = (item: LaneItem, structural: boolean): chroma.Color => {
+    let C = structural ? Math.min(familyC, 6) : familyC;
+    let H = familyH;
+    if (item.tendency === "neutral") C = Math.min(C, 6);
+    if (item.tendency === "bold") C = Math.max(...chromas);
+    if (item.tendency === "warmer") H = nudgeHue(H, 50, 25);
+    if (item.tendency === "cooler") H = nudgeHue(H, 230, 25);
+
+    // Reuse a real palette color when it already sits on the walk
+    const existing = family.find(
+      (c) =>
+        Math.abs(c.lab()[0] - item.targetL) <= 6 &&
+        hueDistance(c.lch()[2] || 0, H) < 15 &&
+        (!structural || c.lch()[1] <= 12)
+    );
+    if (existing) return existing;
+    // Mapped rather than clipped, so the tone keeps the L and hue it was
+    // chosen for
+    return mapToGamut(item.targetL, C, H, "lab");
+  };
+
+  for (const item of accentItems) {
+    const tone = toneFor(item, false);
+    if (!fitsTendency(tone, item.tendency, item.range)) recordMiss(item, result, unmet);
+    result[item.idx] = { ...result[item.idx], color: tone };
+  }
+  for (const item of structuralItems) {
+    const tone = toneFor(item, true);
+    if (!fitsTendency(tone, item.tendency, item.range)) recordMiss(item, result, unmet);
+    result[item.idx] = { ...result[item.idx], color: tone };
+  }
+}
+
+function circularMeanHue(hues: number[]): number {
+  let x = 0, y = 0;
+  for (const h of hues) {
+    x += Math.cos((h * Math.PI) / 180);
+    y += Math.sin((h * Math.PI) / 180);
+  }
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
 
-  return result;
+/** Move hue `from` up to `maxStep` degrees toward hue `to`. */
+function nudgeHue(from: number, to: number, maxStep: number): number {
+  let diff = ((to - from + 540) % 360) - 180;
+  diff = Math.max(-maxStep, Math.min(maxStep, diff));
+  return (from + diff + 360) % 360;
 }
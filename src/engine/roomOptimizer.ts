@@ -0,0 +1,247 @@
+import chroma from "chroma-js";
+import type { RoomItem } from "./roomTemplates";
+import { getCatalogLightnessRange, getCatalogRole } from "./itemCatalog";
+import { mulberry32 } from "./harmonies";
+import {
+  autoFillRoom,
+  computeHarmonyScore,
+  fitsTendency,
+  neutralizeForStructure,
+  prepareHarmony,
+  scoreWithColor,
+} from "./roomAssigner";
+import type { FillAlgorithm } from "./roomAssigner";
+
+/**
+ * Search-based room fill.
+ *
+ * Instead of a one-shot heuristic, the optimizer treats the fill as a
+ * search over assignments of palette colors to open items and keeps
+ * the assignments with the highest computeHarmonyScore. Small rooms are
+ * enumerated exhaustively; larger ones use seeded hill-climbing with
+ * random restarts so the same seed always returns the same fills.
+ */
+
+export interface RankedFill {
+  items: RoomItem[];
+  score: number;
+}
+
+export interface OptimizeOptions {
+  /** How many distinct fills to return (default 3) */
+  topN?: number;
+  /** Seed for the heuristic search (default 0) */
+  seed?: number;
+  /** Largest search space enumerated exhaustively (default 5000) */
+  maxExhaustive?: number;
+  /** Random restarts for the heuristic search (default 12) */
+  restarts?: number;
+}
+
+/** Catalog range slack: a color this close to the range still counts */
+const RANGE_SLACK = 5;
+
+/**
+ * Colors an open item may take. Structural items only see neutralized
+ * colors (same guardrail as auto-fill). Colors outside the item's
+ * catalog lightness range are dropped; if that leaves nothing, the two
+ * colors nearest the range are kept. Tendencies narrow the set further
+ * when at least one candidate satisfies them.
+ */
+function candidatesFor(item: RoomItem, palette: chroma.Color[]): chroma.Color[] {
+  const range = getCatalogLightnessRange(item.name);
+  const [minL, maxL] = range;
+  const role = getCatalogRole(item.name);
+  const tendency = item.tendency ?? "any";
+  const structural =
+    tendency === "neutral" ||
+    (tendency !== "bold" && role !== "accent" && role !== "anchor");
+
+  const seen = new Set<string>();
+  const pool: chroma.Color[] = [];
+  for (const c of palette) {
+    const color = structural ? neutralizeForStructure(c) : c;
+    const hex = color.hex();
+    if (!seen.has(hex)) {
+      seen.add(hex);
+      pool.push(color);
+    }
+  }
+
+  const distToRange = (c: chroma.Color) => {
+    const L = c.lab()[0];
+    return L < minL ? minL - L : L > maxL ? L - maxL : 0;
+  };
+
+  let inRange = pool.filter((c) => distToRange(c) <= RANGE_SLACK);
+  if (inRange.length === 0) {
+    inRange = [...pool].sort((a, b) => distToRange(a) - distToRange(b)).slice(0, 2);
+  }
+
+  const fitting = inRange.filter((c) => fitsTendency(c, tendency, range));
+  return fitting.length > 0 ? fitting : inRange;
+}
+
+interface Ranked {
+  key: string;
+  /** Color for each open item, in `open` order */
+  fill: chroma.Color[];
+  score: number;
+}
+
+/**
+ * Insert a fill into the best-first `top` list, keeping at most `size`
+ * entries and ignoring assignments already held.
+ */
+function offerFill(top: Ranked[], size: number, fill: chroma.Color[], score: number) {
+  const key = fill.map((c) => c.hex()).join(",");
+  if (top.some((e) => e.key === key)) return;
+  if (top.length >= size && score <= top[top.length - 1].score) return;
+  top.push({ key, fill: [...fill], score });
+  top.sort((a, b) => b.score - a.score);
+  if (top.length > size) top.pop();
+}
+
+/**
+ * Find the best-scoring fills for a room's open items.
+ *
+ * Items that already have a color are treated as locked: they count
+ * toward the score but are never changed. Returns up to `topN` distinct
+ * fills, best first.
+ */
+export function optimizeRoomFill(
+  items: RoomItem[],
+  palette: chroma.Color[],
+  algorithm: FillAlgorithm,
+  options: OptimizeOptions = {}
+): RankedFill[] {
+  const { topN = 3, seed = 0, maxExhaustive = 5000, restarts = 12 } = options;
+  if (palette.length === 0) return [];
+
+  const open: number[] = [];
+  for (let i = 0; i < items.length; i++) {
+    if (items[i].color === null) open.push(i);
+  }
+  if (open.length === 0) {
+    const colors = items.map((item) => item.color!);
+    const weights = items.map((item) => item.weight);
+    return [{ items, score: computeHarmonyScore(colors, algorithm, palette, weights) }];
+  }
+
+  const candidates = open.map((i) => candidatesFor(items[i], palette));
+
+  // Score buffers: locked items first, then the open slots
+  const locked = items.filter((item) => item.color !== null);
+  const colors = [...locked.map((item) => item.color!), ...open.map(() => palette[0])];
+  const weights = [...locked.map((item) => item.weight), ...open.map((i) => items[i].weight)];
+  const base = locked.length;
+
+  const evaluate = (choice: number[]): number => {
+    for (let k = 0; k < open.length; k++) {
+      colors[base + k] = candidates[k][choice[k]];
+    }
+    return computeHarmonyScore(colors, algorithm, palette, weights);
+  };
+  // The room without open slot `slot`, prepared once so each of that
+  // slot's candidates is scored incrementally
+  const prepareWithout = (choice: number[], slot: number) => {
+    const rest: chroma.Color[] = [];
+    const restWeights: number[] = [];
+    for (let j = 0; j < colors.length; j++) {
+      if (j === base + slot) continue;
+      rest.push(j < base ? colors[j] : candidates[j - base][choice[j - base]]);
+      restWeights.push(weights[j]);
+    }
+    return prepareHarmony(rest, algorithm, palette, restWeights);
+  };
+  const slotWeight = (slot: number) => weights[base + slot];
+  const fillOf = (choice: number[]) => choice.map((c, k) => candidates[k][c]);
+
+  const top: Ranked[] = [];
+  const space = candidates.reduce((n, c) => n * c.length, 1);
+
+  // The regular auto-fill is scored as a seed of its own, so the optimizer
+  // never returns something worse than the greedy heuristic. It may use
+  // colors outside an item's candidates; the search itself does not.
+  const greedy = autoFillRoom(items, palette, algorithm).items;
+  const greedyFill = open.map((i) => greedy[i].color);
+  if (greedyFill.every((c) => c !== null)) {
+    const greedyColors = [...locked.map((item) => item.color!), ...greedyFill];
+    offerFill(top, topN, greedyFill, computeHarmonyScore(greedyColors, algorithm, palette, weights));
+  }
+
+  if (space <= maxExhaustive) {
+    // Odometer over every combination. Slot 0 turns fastest, so one
+    // prepared state serves all of its candidates.
+    const choice = open.map(() => 0);
+    for (;;) {
+      const state = prepareWithout(choice, 0);
+      for (let c = 0; c < candidates[0].length; c++) {
+        choice[0] = c;
+        offerFill(top, topN, fillOf(choice), scoreWithColor(state, candidates[0][c], slotWeight(0)));
+      }
+      choice[0] = 0;
+      let k = 1;
+      while (k < choice.length) {
+        choice[k]++;
+        if (choice[k] < candidates[k].length) break;
+        choice[k] = 0;
+        k++;
+      }
+      if (k === choice.length) break;
+    }
+  } else {
+    const rng = mulberry32(seed);
+
+    // First restart starts from the candidates nearest the greedy fill
+    const greedyChoice = open.map((_, k) => {
+      const hex = greedyFill[k]?.hex();
+      const idx = candidates[k].findIndex((c) => c.hex() === hex);
+      return idx >= 0 ? idx : 0;
+    });
+
+    for (let r = 0; r < restarts; r++) {
+      const choice = r === 0
+        ? [...greedyChoice]
+        : candidates.map((c) => Math.floor(rng() * c.length));
+      let score = evaluate(choice);
+      offerFill(top, topN, fillOf(choice), score);
+
+      // Coordinate ascent: revisit items in a shuffled order until no
+      // single-item change improves the score.
+      const order = open.map((_, k) => k);
+      for (let pass = 0; pass < 8; pass++) {
+        for (let k = order.length - 1; k > 0; k--) {
+          const j = Math.floor(rng() * (k + 1));
+          [order[k], order[j]] = [order[j], order[k]];
+        }
+        let improved = false;
+        for (const k of order) {
+          const current = choice[k];
+          const state = prepareWithout(choice, k);
+          for (let c = 0; c < candidates[k].length; c++) {
+            if (c === current) continue;
+            choice[k] = c;
+            const s = scoreWithColor(state, candidates[k][c], slotWeight(k));
+            offerFill(top, topN, fillOf(choice), s);
+            if (s > score) {
+              score = s;
+              improved = true;
+              break;
+            }
+            choice[k] = current;
+          }
+        }
+        if (!improved) break;
+      }
+    }
+  }
+
+  return top.map(({ fill, score }) => {
+    const filled = [...items];
+    open.forEach((i, k) => {
+      filled[i] = { ...filled[i], color: fill[k] };
+    });
+    return { items: filled, score };
+  });
+}
@@ -20,12 +20,22 @@ export const TENDENCY_LABELS: Record<Tendency, string> = {
   bold: "Bold",
 };
 
+/** One color of a patterned item and its share of the item's area */
+export interface PatternColor {
+  color: chroma.Color | null;
+  /** Relative area, usually a percentage */
+  proportion: number;
+}
+
 export interface RoomItem {
   id: number;
   name: string;
+  /** For patterned items, the first (main) pattern color */
   color: chroma.Color | null;
   weight: number;
   tendency: Tendency;
+  /** Set for patterned items: a rug that is 60% cream, 30% rust, 10% navy */
+  pattern?: PatternColor[];
 }
 
 export interface RoomTemplate {
@@ -75,4 +85,134 @@ export const ROOM_TEMPLATES: RoomTemplate[] = [
       templateItem("Rug"),
     ],
   },
+  {
+    name: "Kitchen",
+    items: [
+      templateItem("Floors"),
+      templateItem("Main Wall", "lighter"),
+      templateItem("Ceiling", "lighter"),
+      templateItem("Cabinet Doors"),
+      templateItem("Countertop"),
+      templateItem("Backsplash"),
+      templateItem("Doors", "neutral"),
+      templateItem("Pendant Light"),
+      templateItem("Runner Rug"),
+    ],
+  },
+  {
+    name: "Bathroom",
+    items: [
+      templateItem("Floors"),
+      templateItem("Main Wall", "lighter"),
+      templateItem("Wall Tile", "lighter"),
+      templateItem("Ceiling", "lighter"),
+      templateItem("Vanity"),
+      templateItem("Countertop"),
+      templateItem("Shower Curtain"),
+      templateItem("Towels"),
+      templateItem("Bath Mat"),
+      templateItem("Mirror Frame"),
+    ],
+  },
+  {
+    name: "Dining Room",
+    items: [
+      templateItem("Floors"),
+      templateItem("Main Wall", "lighter"),
+      templateItem("Accent Wall"),
+      templateItem("Doors", "neutral"),
+      templateItem("Dining Table"),
+      templateItem("Dining Chairs"),
+      templateItem("Rug"),
+      templateItem("Drapes"),
+      templateItem("Pendant Light"),
+      templateItem("Table Runner"),
+    ],
+  },
+  {
+    name: "Home Office",
+    items: [
+      templateItem("Floors"),
+      templateItem("Main Wall", "lighter"),
+      templateItem("Accent Wall"),
+      templateItem("Doors", "neutral"),
+      templateItem("Desk"),
+      templateItem("Desk Chair"),
+      templateItem("Shelving"),
+      templateItem("Rug"),
+      templateItem("Drapes"),
+      templateItem("Artwork"),
+    ],
+  },
+  {
+    name: "Nursery",
+    items: [
+      templateItem("Floors"),
+      templateItem("Main Wall", "lighter"),
+      templateItem("Accent Wall"),
+      templateItem("Doors", "neutral"),
+      templateItem("Crib", "lighter"),
+      templateItem("Changing Table"),
+      templateItem("Rocking Chair"),
+      templateItem("Drapes"),
+      templateItem("Rug"),
+      templateItem("Throw Blanket"),
+    ],
+  },
+  {
+    name: "Entryway",
+    items: [
+      templateItem("Floors", "darker"),
+      templateItem("Main Wall", "lighter"),
+      templateItem("Doors", "neutral"),
+      templateItem("Baseboards", "neutral"),
+      templateItem("Console Table"),
+      templateItem("Bench"),
+      templateItem("Runner Rug"),
+      templateItem("Mirror Frame"),
+      templateItem("Light Fixture"),
+    ],
+  },
 ];
+
+// ─── User templates ──────────────────────────────────────────────
+
+/** A room saved by the user for reuse */
+export interface CustomRoomTemplate extends RoomTemplate {
+  id: number;
+}
+
+/** Template selector value for a user template: "user:<id>" */
+export const CUSTOM_TEMPLATE_PREFIX = "user:";
+
+/**
+ * A template from a room's current items: names, weights and
+ * tendencies are kept, colors are not.
+ */
+export function templateFromRoom(
+  name: string,
+  items: RoomItem[],
+  existing: CustomRoomTemplate[]
+): CustomRoomTemplate {
+  return {
+    id: existing.reduce((max, t) => Math.max(max, t.id), 0) + 1,
+    name,
+    items: items.map(({ name, weight, tendency }) => ({ name, color: null, weight, tendency })),
+  };
+}
+
+/**
+ * Resolve a selector value — a ROOM_TEMPLATES index or "user:<id>" —
+ * to its template.
+ */
+export function findRoomTemplate(
+  value: string,
+  custom: CustomRoomTemplate[]
+): RoomTemplate | undefined {
+  if (value.startsWith(CUSTOM_TEMPLATE_PREFIX)) {
+    const id = Number(value.slice(CUSTOM_TEMPLATE_PREFIX.length));
+    return custom.find((t) => t.id === id);
+  }
+  if (!/^\d+$/.test(value)) return undefined;
+  return ROOM_TEMPLATES[Number(value)];
+}
@@ -0,0 +1,174 @@
+import type chroma from "chroma-js";
+import type { RoomItem } from "./roomTemplates";
+import { TENDENCY_LABELS } from "./roomTemplates";
+import { getCatalogRole } from "./itemCatalog";
+import { FILL_LABELS } from "./roomAssigner";
+import type { FillAlgorithm, HarmonyBreakdown } from "./roomAssigner";
+import { fromLCH, WORKING_SPACE_LABELS } from "./colorSpace";
+import { isPatterned, roomColorComponents } from "./patterns";
+
+/**
+ * Printable room specification sheet.
+ *
+ * Builds a single self-contained HTML page — inline styles, no scripts
+ * beyond a print button, no external assets — that a painter or
+ * contractor can read on screen or print to PDF: every item with its
+ * swatch, hex, LAB, catalog role and weight, the harmony score and its
+ * breakdown, and the palette the room was filled from.
+ */
+
+export interface SpecSheetInput {
+  title: string;
+  items: RoomItem[];
+  /** Palette the room was filled from */
+  palette: chroma.Color[];
+  /** Breakdown of the room's colors, in roomColorComponents order */
+  breakdown: HarmonyBreakdown;
+  algorithm: FillAlgorithm;
+  date?: Date;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatLab(color: chroma.Color): string {
+  return color.lab().map((v) => v.toFixed(1)).join(", ");
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #222; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.06em; color: #666; margin: 28px 0 10px; }
+  .meta { color: #666; font-size: 12px; }
+  .score { font-size: 36px; font-weight: 700; }
+  .score small { font-size: 14px; color: #666; font-weight: 400; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; vertical-align: middle; }
+  th { font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; color: #666; }
+  tr { page-break-inside: avoid; }
+  .mono { font-family: "SF Mono", Menlo, Consolas, monospace; }
+  .chip { display: inline-block; width: 36px; height: 24px; border-radius: 4px; border: 1px solid rgba(0,0,0,0.15); }
+  .palette { display: flex; flex-wrap: wrap; gap: 10px; }
+  .palette figure { margin: 0; text-align: center; font-size: 11px; }
+  .palette .chip { width: 64px; height: 44px; display: block; margin-bottom: 4px; }
+  .notes { font-size: 12px; margin: 4px 0; }
+  .empty { color: #999; }
+  .print { position: fixed; top: 16px; right: 16px; padding: 8px 16px; font-size: 13px; cursor: pointer; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  @page { margin: 15mm; }
+  @media print { body { margin: 0; } .print { display: none; } }
+`;
+
+function breakdownNotes(breakdown: HarmonyBreakdown, itemNames: string[]): string[] {
+  const notes: string[] = [];
+  if (breakdown.outliers.length > 0) {
+    const names = breakdown.outliers.map(
+      (i) => `${itemNames[i] ?? `Color ${i + 1}`} (${Math.round(breakdown.items[i].distance ?? 0)}° off)`
+    );
+    notes.push(`Outside every hue family: ${names.join(", ")}`);
+  }
+  if (breakdown.gaps.length > 0) {
+    const gaps = breakdown.gaps.map(
+      (g) => `L${Math.round(g.from)}–L${Math.round(g.to)} (−${g.penalty.toFixed(1)})`
+    );
+    notes.push(`Tonal gaps: ${gaps.join(", ")}`);
+  }
+  if (breakdown.flatPenalty > 0) {
+    notes.push(`Too little light-to-dark range (−${breakdown.flatPenalty.toFixed(1)})`);
+  }
+  if (breakdown.spacingPenalty > 1) {
+    notes.push(`Lightness steps bunch up and leave voids (−${breakdown.spacingPenalty.toFixed(1)})`);
+  }
+  if (breakdown.chromaStdDev > 5) {
+    notes.push(`Chroma varies by ±${breakdown.chromaStdDev.toFixed(1)} across items`);
+  }
+  return notes;
+}
+
+export function buildRoomSpecSheet(input: SpecSheetInput): string {
+  const { title, items, palette, breakdown, algorithm, date = new Date() } = input;
+  const components = roomColorComponents(items);
+
+  const itemRows = items.map((item) => {
+    const tendency = item.tendency !== "any" ? TENDENCY_LABELS[item.tendency] : "";
+    // A patterned item lists each of its colors with its share
+    const total = isPatterned(item) ? item.pattern.reduce((s, p) => s + p.proportion, 0) || 1 : 1;
+    const colors = isPatterned(item)
+      ? item.pattern.map((p) => ({ color: p.color, share: Math.round((p.proportion / total) * 100) }))
+      : [{ color: item.color, share: null }];
+    const lines = (render: (color: chroma.Color, share: number | null) => string, empty = "") =>
+      colors.map(({ color, share }) => (color ? render(color, share) : empty)).join("<br>");
+    return `<tr>
+      <td>${lines((c) => `<span class="chip" style="background:${c.hex()}"></span>`)}</td>
+      <td>${escapeHTML(item.name)}</td>
+      <td class="mono">${lines((c, share) => `${c.hex().toUpperCase()}${share !== null ? ` · ${share}%` : ""}`, '<span class="empty">—</span>')}</td>
+      <td class="mono">${lines((c) => formatLab(c))}</td>
+      <td>${capitalize(getCatalogRole(item.name))}</td>
+      <td>${item.weight}</td>
+      <td>${tendency}</td>
+    </tr>`;
+  });
+
+  const componentRows = breakdown.components.map(
+    (c) => `<tr>
+      <td>${escapeHTML(c.label)}</td>
+      <td>${Math.round(c.score)}</td>
+      <td>× ${c.weight.toFixed(2)}</td>
+      <td>${c.contribution.toFixed(1)}</td>
+    </tr>`
+  );
+
+  const families = breakdown.clusters.map(
+    (cluster) =>
+      `<span class="chip" title="${Math.round(cluster.center)}°" style="background:${fromLCH(65, 40, cluster.center, breakdown.space).hex()}"></span>`
+  );
+
+  const notes = breakdownNotes(breakdown, components.map((c) => items[c.itemIndex].name));
+
+  const paletteFigures = palette.map(
+    (c) => `<figure><span class="chip" style="background:${c.hex()}"></span><span class="mono">${c.hex().toUpperCase()}</span></figure>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)} — Color specification</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>${escapeHTML(title)}</h1>
+<div class="meta">Color specification · ${date.toLocaleDateString()} · ${FILL_LABELS[algorithm]} fill · ${WORKING_SPACE_LABELS[breakdown.space]}</div>
+
+<h2>Items</h2>
+<table>
+  <thead><tr><th></th><th>Item</th><th>Hex</th><th>LAB (D65)</th><th>Role</th><th>Weight</th><th>Tendency</th></tr></thead>
+  <tbody>${itemRows.join("")}</tbody>
+</table>
+
+<h2>Room harmony</h2>
+${components.length >= 2
+    ? `<div class="score">${breakdown.score} <small>/ 100</small></div>
+<table>
+  <thead><tr><th>Component</th><th>Score</th><th>Weight</th><th>Points</th></tr></thead>
+  <tbody>${componentRows.join("")}</tbody>
+</table>
+${families.length > 0 ? `<p class="notes">${breakdown.clusterSource === "palette" ? "Palette" : "Room"} hue families: ${families.join(" ")}</p>` : ""}
+${notes.map((n) => `<p class="notes">${escapeHTML(n)}</p>`).join("")}`
+    : `<p class="notes empty">Assign at least two items to score the room.</p>`}
+
+<h2>Source palette</h2>
+<div class="palette">${paletteFigures.join("")}</div>
+</body>
+</html>
+`;
+}
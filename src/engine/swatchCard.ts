@@ -0,0 +1,201 @@
+import chroma from "chroma-js";
+
+/**
+ * Swatch card images.
+ *
+ * Draws a palette or a filled room/outfit as a standalone SVG card for
+ * chats and mood boards, with each color's label, hex and LAB. Three
+ * layouts:
+ *
+ * - strip: one tall column per color, like a SwatchStrip turned on its
+ *   side, values printed underneath.
+ * - grid: square tiles with the values printed on the color.
+ * - proportion: one bar split by weight (surface area in a room), with
+ *   a legend giving each color's share.
+ *
+ * The SVG uses only basic shapes and system fonts so it renders the
+ * same when rasterized to PNG in the browser.
+ */
+
+export type SwatchCardLayout = "strip" | "grid" | "proportion";
+
+export const SWATCH_CARD_LAYOUT_LABELS: Record<SwatchCardLayout, string> = {
+  strip: "Strip",
+  grid: "Grid",
+  proportion: "Proportion bars",
+};
+
+export interface CardSwatch {
+  /** Item name; omitted from the card when it just repeats the hex */
+  label: string;
+  color: chroma.Color;
+  /** Relative size in the proportion layout (default 1) */
+  weight?: number;
+}
+
+export interface SwatchCard {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const PADDING = 24;
+const TITLE_HEIGHT = 40;
+const FONT = "-apple-system, 'Segoe UI', Helvetica, Arial, sans-serif";
+const MONO = "'SF Mono', Menlo, Consolas, monospace";
+const TEXT = "#222";
+const MUTED = "#777";
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function hexOf(color: chroma.Color): string {
+  return color.hex().toUpperCase();
+}
+
+function labOf(color: chroma.Color): string {
+  return `LAB ${color.lab().map((v) => Math.round(v)).join(" ")}`;
+}
+
+/** The label if it says something the hex doesn't */
+function displayLabel(swatch: CardSwatch): string {
+  return swatch.label.toUpperCase() === hexOf(swatch.color) ? "" : swatch.label;
+}
+
+/** Readable text color on top of `color` */
+function inkOn(color: chroma.Color): string {
+  return chroma.contrast(color, "white") > 3 ? "#fff" : "#222";
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  { size = 12, fill = TEXT, weight = 400, mono = false, anchor = "start" } = {}
+): string {
+  return `<text x="${x}" y="${y}" font-family="${mono ? MONO : FONT}" font-size="${size}" font-weight="${weight}" fill="${fill}" text-anchor="${anchor}">${escapeXML(content)}</text>`;
+}
+
+/** Cut a label down to roughly `max` characters */
+function fit(label: string, max: number): string {
+  return label.length > max ? `${label.slice(0, max - 1)}…` : label;
+}
+
+function wrap(width: number, height: number, title: string, body: string): SwatchCard {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="${width}" height="${height}" rx="12" fill="#faf8f5"/>
+${text(PADDING, PADDING + 18, title, { size: 18, weight: 600 })}
+${body}
+</svg>
+`;
+  return { svg, width, height };
+}
+
+// ─── Layouts ─────────────────────────────────────────────────────
+
+const STRIP_COLUMN = 120;
+const STRIP_BLOCK = 160;
+
+function stripLayout(title: string, swatches: CardSwatch[]): SwatchCard {
+  const hasLabels = swatches.some((s) => displayLabel(s));
+  const textRows = hasLabels ? 3 : 2;
+  const width = PADDING * 2 + swatches.length * STRIP_COLUMN;
+  const top = PADDING + TITLE_HEIGHT;
+  const height = top + STRIP_BLOCK + 12 + textRows * 16 + PADDING;
+
+  const parts = swatches.map((s, i) => {
+    const x = PADDING + i * STRIP_COLUMN;
+    const lines: string[] = [];
+    let y = top + STRIP_BLOCK + 22;
+    if (hasLabels) {
+      lines.push(text(x + 4, y, fit(displayLabel(s), 16), { size: 12, weight: 600 }));
+      y += 16;
+    }
+    lines.push(text(x + 4, y, hexOf(s.color), { size: 11, mono: true }));
+    lines.push(text(x + 4, y + 16, labOf(s.color), { size: 10, mono: true, fill: MUTED }));
+    return `<rect x="${x}" y="${top}" width="${STRIP_COLUMN}" height="${STRIP_BLOCK}" fill="${s.color.hex()}"/>
+${lines.join("\n")}`;
+  });
+  return wrap(width, height, title, parts.join("\n"));
+}
+
+const GRID_TILE = 150;
+const GRID_GAP = 8;
+
+function gridLayout(title: string, swatches: CardSwatch[]): SwatchCard {
+  const columns = Math.min(swatches.length, Math.ceil(Math.sqrt(swatches.length)));
+  const rows = Math.ceil(swatches.length / columns);
+  const width = PADDING * 2 + columns * GRID_TILE + (columns - 1) * GRID_GAP;
+  const top = PADDING + TITLE_HEIGHT;
+  const height = top + rows * GRID_TILE + (rows - 1) * GRID_GAP + PADDING;
+
+  const parts = swatches.map((s, i) => {
+    const x = PADDING + (i % columns) * (GRID_TILE + GRID_GAP);
+    const y = top + Math.floor(i / columns) * (GRID_TILE + GRID_GAP);
+    const ink = inkOn(s.color);
+    const label = displayLabel(s);
+    return `<rect x="${x}" y="${y}" width="${GRID_TILE}" height="${GRID_TILE}" rx="8" fill="${s.color.hex()}"/>
+${label ? text(x + 12, y + GRID_TILE - 46, fit(label, 18), { size: 13, weight: 600, fill: ink }) : ""}
+${text(x + 12, y + GRID_TILE - 28, hexOf(s.color), { size: 12, mono: true, fill: ink })}
+${text(x + 12, y + GRID_TILE - 12, labOf(s.color), { size: 10, mono: true, fill: ink })}`;
+  });
+  return wrap(width, height, title, parts.join("\n"));
+}
+
+const BAR_WIDTH = 560;
+const BAR_HEIGHT = 72;
+const LEGEND_ROW = 26;
+
+function proportionLayout(title: string, swatches: CardSwatch[]): SwatchCard {
+  const total = swatches.reduce((sum, s) => sum + Math.max(0, s.weight ?? 1), 0) || 1;
+  const width = PADDING * 2 + BAR_WIDTH;
+  const top = PADDING + TITLE_HEIGHT;
+  const legendTop = top + BAR_HEIGHT + 24;
+  const height = legendTop + swatches.length * LEGEND_ROW + PADDING;
+
+  // Largest share first, so the bar reads left to right by importance
+  const ordered = [...swatches].sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1));
+  let x = PADDING;
+  const segments = ordered.map((s) => {
+    const w = (Math.max(0, s.weight ?? 1) / total) * BAR_WIDTH;
+    const rect = `<rect x="${x.toFixed(2)}" y="${top}" width="${w.toFixed(2)}" height="${BAR_HEIGHT}" fill="${s.color.hex()}"/>`;
+    x += w;
+    return rect;
+  });
+
+  const legend = ordered.map((s, i) => {
+    const y = legendTop + i * LEGEND_ROW;
+    const share = Math.round((Math.max(0, s.weight ?? 1) / total) * 100);
+    const label = displayLabel(s) || hexOf(s.color);
+    return `<rect x="${PADDING}" y="${y}" width="18" height="18" rx="3" fill="${s.color.hex()}" stroke="rgba(0,0,0,0.15)"/>
+${text(PADDING + 28, y + 14, fit(label, 28), { size: 12, weight: 600 })}
+${text(PADDING + 270, y + 14, hexOf(s.color), { size: 11, mono: true })}
+${text(PADDING + 350, y + 14, labOf(s.color), { size: 10, mono: true, fill: MUTED })}
+${text(PADDING + BAR_WIDTH, y + 14, `${share}%`, { size: 12, anchor: "end" })}`;
+  });
+
+  const body = `<clipPath id="bar"><rect x="${PADDING}" y="${top}" width="${BAR_WIDTH}" height="${BAR_HEIGHT}" rx="8"/></clipPath>
+<g clip-path="url(#bar)">${segments.join("")}</g>
+${legend.join("\n")}`;
+  return wrap(width, height, title, body);
+}
+
+export function renderSwatchCard(
+  title: string,
+  swatches: CardSwatch[],
+  layout: SwatchCardLayout
+): SwatchCard {
+  switch (layout) {
+    case "strip":
+      return stripLayout(title, swatches);
+    case "grid":
+      return gridLayout(title, swatches);
+    case "proportion":
+      return proportionLayout(title, swatches);
+  }
+}
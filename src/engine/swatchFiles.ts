@@ -0,0 +1,366 @@
+import chroma from "chroma-js";
+import { labD50ToColor } from "./parser";
+
+/**
+ * Swatch file formats.
+ *
+ * Readers and writers for the palette files design tools exchange:
+ *
+ * - GPL: GIMP and Inkscape palettes, plain text, one "R G B name" line
+ *   per color.
+ * - ASE: Adobe Swatch Exchange, big-endian binary blocks holding a
+ *   UTF-16 name, a color model (RGB, CMYK, LAB or Gray) and float
+ *   channels. Groups are flattened on read.
+ * - ACO: Photoshop color swatches, a version 1 section of 16-bit
+ *   channels optionally followed by a version 2 section that repeats
+ *   the colors with UTF-16 names.
+ *
+ * Writers always store sRGB. Readers convert CMYK naively, and LAB as
+ * the D50 LAB Adobe uses.
+ */
+
+export type SwatchFileFormat = "ase" | "gpl" | "aco";
+
+export const SWATCH_FILE_LABELS: Record<SwatchFileFormat, string> = {
+  ase: "Adobe Swatch Exchange (.ase)",
+  gpl: "GIMP / Inkscape (.gpl)",
+  aco: "Photoshop (.aco)",
+};
+
+export const SWATCH_FILE_MIME: Record<SwatchFileFormat, string> = {
+  ase: "application/octet-stream",
+  gpl: "text/plain",
+  aco: "application/octet-stream",
+};
+
+export interface NamedSwatch {
+  name: string;
+  color: chroma.Color;
+}
+
+export type SwatchFileResult =
+  | { ok: true; format: SwatchFileFormat; swatches: NamedSwatch[] }
+  | { ok: false; error: string };
+
+/** Reject the file; readSwatchFile turns the message into its error */
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+// ─── Binary helpers ──────────────────────────────────────────────
+
+/** Big-endian writer that grows as it goes */
+function createWriter() {
+  const bytes: number[] = [];
+  const scratch = new DataView(new ArrayBuffer(4));
+  return {
+    u16(v: number) {
+      bytes.push((v >> 8) & 0xff, v & 0xff);
+    },
+    u32(v: number) {
+      bytes.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff);
+    },
+    f32(v: number) {
+      scratch.setFloat32(0, v);
+      for (let i = 0; i < 4; i++) bytes.push(scratch.getUint8(i));
+    },
+    ascii(text: string) {
+      for (const ch of text) bytes.push(ch.charCodeAt(0) & 0xff);
+    },
+    /** UTF-16BE code units followed by a 0 terminator */
+    utf16z(text: string) {
+      for (let i = 0; i < text.length; i++) this.u16(text.charCodeAt(i));
+      this.u16(0);
+    },
+    append(other: Uint8Array) {
+      for (const b of other) bytes.push(b);
+    },
+    bytes() {
+      return Uint8Array.from(bytes);
+    },
+  };
+}
+
+/** Big-endian reader that fails cleanly past the end of the file */
+function createReader(data: Uint8Array) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+  const need = (n: number) => {
+    if (offset + n > data.byteLength) fail("The file ends unexpectedly");
+  };
+  return {
+    u16() {
+      need(2);
+      const v = view.getUint16(offset);
+      offset += 2;
+      return v;
+    },
+    u32() {
+      need(4);
+      const v = view.getUint32(offset);
+      offset += 4;
+      return v;
+    },
+    f32() {
+      need(4);
+      const v = view.getFloat32(offset);
+      offset += 4;
+      return v;
+    },
+    ascii(n: number) {
+      need(n);
+      let text = "";
+      for (let i = 0; i < n; i++) text += String.fromCharCode(data[offset + i]);
+      offset += n;
+      return text;
+    },
+    /** `units` UTF-16BE code units, trailing 0 terminator dropped */
+    utf16(units: number) {
+      need(units * 2);
+      let text = "";
+      for (let i = 0; i < units; i++) text += String.fromCharCode(view.getUint16(offset + i * 2));
+      offset += units * 2;
+      return text.replace(/\0+$/, "");
+    },
+    skip(n: number) {
+      need(n);
+      offset += n;
+    },
+    get offset() {
+      return offset;
+    },
+    get remaining() {
+      return data.byteLength - offset;
+    },
+  };
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// ─── GPL ─────────────────────────────────────────────────────────
+
+export function writeGPL(title: string, swatches: NamedSwatch[]): string {
+  const lines = ["GIMP Palette", `Name: ${title.replace(/\s+/g, " ")}`, "Columns: 0", "#"];
+  for (const { name, color } of swatches) {
+    const [r, g, b] = color.rgb().map((v) => String(v).padStart(3));
+    lines.push(`${r} ${g} ${b}\t${name}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function readGPL(text: string): NamedSwatch[] {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith("GIMP Palette")) fail("Not a GIMP palette");
+
+  const swatches: NamedSwatch[] = [];
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#") || /^(Name|Columns):/i.test(trimmed)) continue;
+    const match = trimmed.match(/^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s*(.*)$/);
+    if (!match) continue;
+    const [r, g, b] = match.slice(1, 4).map((v) => Math.min(255, Number(v)));
+    const color = chroma.rgb(r, g, b);
+    swatches.push({ name: match[4].trim() || color.hex(), color });
+  }
+  return swatches;
+}
+
+// ─── ASE ─────────────────────────────────────────────────────────
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+/** Color type "normal" (0 = global, 1 = spot) */
+const ASE_NORMAL = 2;
+
+export function writeASE(title: string, swatches: NamedSwatch[]): Uint8Array {
+  const blocks: { type: number; body: Uint8Array }[] = [];
+
+  const group = createWriter();
+  group.u16(title.length + 1);
+  group.utf16z(title);
+  blocks.push({ type: ASE_GROUP_START, body: group.bytes() });
+
+  for (const { name, color } of swatches) {
+    const body = createWriter();
+    body.u16(name.length + 1);
+    body.utf16z(name);
+    body.ascii("RGB ");
+    for (const v of color.rgb()) body.f32(v / 255);
+    body.u16(ASE_NORMAL);
+    blocks.push({ type: ASE_COLOR, body: body.bytes() });
+  }
+  blocks.push({ type: ASE_GROUP_END, body: new Uint8Array(0) });
+
+  const out = createWriter();
+  out.ascii("ASEF");
+  out.u16(1);
+  out.u16(0);
+  out.u32(blocks.length);
+  for (const { type, body } of blocks) {
+    out.u16(type);
+    out.u32(body.length);
+    out.append(body);
+  }
+  return out.bytes();
+}
+
+export function readASE(data: Uint8Array): NamedSwatch[] {
+  const r = createReader(data);
+  if (r.ascii(4) !== "ASEF") fail("Not an Adobe Swatch Exchange file");
+  r.skip(4); // version
+  const blockCount = r.u32();
+
+  const swatches: NamedSwatch[] = [];
+  for (let i = 0; i < blockCount; i++) {
+    const type = r.u16();
+    const length = r.u32();
+    const end = r.offset + length;
+    if (type === ASE_COLOR) {
+      const name = r.utf16(r.u16());
+      const model = r.ascii(4).trim().toUpperCase();
+      let color: chroma.Color;
+      switch (model) {
+        case "RGB":
+          color = chroma.gl(clamp01(r.f32()), clamp01(r.f32()), clamp01(r.f32()));
+          break;
+        case "CMYK":
+          color = chroma.cmyk(clamp01(r.f32()), clamp01(r.f32()), clamp01(r.f32()), clamp01(r.f32()));
+          break;
+        case "LAB":
+          color = labD50ToColor(r.f32() * 100, r.f32(), r.f32());
+          break;
+        case "GRAY": {
+          const v = clamp01(r.f32());
+          color = chroma.gl(v, v, v);
+          break;
+        }
+        default:
+          fail(`Unknown ASE color model "${model}"`);
+      }
+      swatches.push({ name: name || color.hex(), color });
+    }
+    r.skip(end - r.offset);
+  }
+  return swatches;
+}
+
+// ─── ACO ─────────────────────────────────────────────────────────
+
+const ACO_RGB = 0;
+const ACO_HSB = 1;
+const ACO_CMYK = 2;
+const ACO_LAB = 7;
+const ACO_GRAY = 8;
+
+export function writeACO(swatches: NamedSwatch[]): Uint8Array {
+  const out = createWriter();
+  const writeColor = (color: chroma.Color) => {
+    out.u16(ACO_RGB);
+    for (const v of color.rgb()) out.u16(v * 257);
+    out.u16(0);
+  };
+
+  out.u16(1);
+  out.u16(swatches.length);
+  for (const { color } of swatches) writeColor(color);
+
+  out.u16(2);
+  out.u16(swatches.length);
+  for (const { name, color } of swatches) {
+    writeColor(color);
+    out.u32(name.length + 1);
+    out.utf16z(name);
+  }
+  return out.bytes();
+}
+
+function readACOColor(space: number, w: number, x: number, y: number, z: number): chroma.Color {
+  switch (space) {
+    case ACO_RGB:
+      return chroma.rgb(w / 257, x / 257, y / 257);
+    case ACO_HSB:
+      return chroma.hsv((w / 65535) * 360, x / 65535, y / 65535);
+    case ACO_CMYK:
+      // 0 means full ink
+      return chroma.cmyk(1 - w / 65535, 1 - x / 65535, 1 - y / 65535, 1 - z / 65535);
+    case ACO_LAB: {
+      // a and b are signed hundredths
+      const signed = (v: number) => (v > 0x7fff ? v - 0x10000 : v);
+      return labD50ToColor(w / 100, signed(x) / 100, signed(y) / 100);
+    }
+    case ACO_GRAY: {
+      const v = 1 - Math.min(10000, w) / 10000;
+      return chroma.gl(v, v, v);
+    }
+    default:
+      return fail(`Unsupported ACO color space ${space}`);
+  }
+}
+
+export function readACO(data: Uint8Array): NamedSwatch[] {
+  const r = createReader(data);
+  let swatches: NamedSwatch[] = [];
+
+  while (r.remaining >= 4) {
+    const version = r.u16();
+    if (version !== 1 && version !== 2) fail("Not a Photoshop swatch file");
+    const count = r.u16();
+    const section: NamedSwatch[] = [];
+    for (let i = 0; i < count; i++) {
+      const space = r.u16();
+      const color = readACOColor(space, r.u16(), r.u16(), r.u16(), r.u16());
+      const name = version === 2 ? r.utf16(r.u32()) : "";
+      section.push({ name: name || color.hex(), color });
+    }
+    // A version 2 section repeats the colors with names; prefer it
+    swatches = section;
+    if (version === 2) break;
+  }
+  return swatches;
+}
+
+// ─── Dispatch ────────────────────────────────────────────────────
+
+export function writeSwatchFile(
+  format: SwatchFileFormat,
+  title: string,
+  swatches: NamedSwatch[]
+): Uint8Array | string {
+  switch (format) {
+    case "ase":
+      return writeASE(title, swatches);
+    case "gpl":
+      return writeGPL(title, swatches);
+    case "aco":
+      return writeACO(swatches);
+  }
+}
+
+/**
+ * Read a swatch file, recognizing the format from its contents and
+ * falling back to the file extension.
+ */
+export function readSwatchFile(fileName: string, data: Uint8Array): SwatchFileResult {
+  const head = String.fromCharCode(...data.slice(0, 12));
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  let format: SwatchFileFormat;
+  if (head.startsWith("ASEF")) format = "ase";
+  else if (head.startsWith("GIMP Palette")) format = "gpl";
+  else if (extension === "aco" || extension === "ase" || extension === "gpl") format = extension;
+  else return { ok: false, error: `${fileName} is not an ASE, GPL or ACO file` };
+
+  try {
+    const swatches =
+      format === "ase" ? readASE(data)
+        : format === "gpl" ? readGPL(new TextDecoder().decode(data))
+          : readACO(data);
+    if (swatches.length === 0) return { ok: false, error: `${fileName} has no colors` };
+    return { ok: true, format, swatches };
+  } catch (e) {
+    return {
+      ok: false,
+      error: `${fileName}: ${e instanceof Error ? e.message : "could not be read"}`,
+    };
+  }
+}
@@ -0,0 +1,172 @@
+import chroma from "chroma-js";
+import type { NamedSwatch } from "./swatchFiles";
+
+/**
+ * Design-token export.
+ *
+ * Turns a palette or a filled room into code: CSS custom properties,
+ * SCSS variables, a Tailwind theme extension or W3C Design Tokens
+ * (DTCG) JSON. Token names are kebab-case, taken from item names
+ * ("Main Wall" → main-wall) or from palette position (color-1, …);
+ * repeats get a numeric suffix. Every token carries the LAB and LCH
+ * values the app shows (CIELAB, D65) next to its hex.
+ */
+
+export type TokenFormat = "css" | "scss" | "tailwind" | "dtcg";
+
+export const TOKEN_FORMAT_LABELS: Record<TokenFormat, string> = {
+  css: "CSS custom properties",
+  scss: "SCSS variables",
+  tailwind: "Tailwind theme",
+  dtcg: "Design Tokens (DTCG JSON)",
+};
+
+export const TOKEN_FILE_NAMES: Record<TokenFormat, string> = {
+  css: "tokens.css",
+  scss: "_tokens.scss",
+  tailwind: "tailwind.colors.js",
+  dtcg: "tokens.json",
+};
+
+export const TOKEN_MIME: Record<TokenFormat, string> = {
+  css: "text/css",
+  scss: "text/x-scss",
+  tailwind: "text/javascript",
+  dtcg: "application/json",
+};
+
+export interface ColorToken {
+  /** kebab-case token name */
+  name: string;
+  /** Where the name came from: item name or palette position */
+  label: string;
+  hex: string;
+  lab: [number, number, number];
+  lch: [number, number, number];
+}
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * "Main Wall" → "main-wall". Falls back to `fallback` if nothing is
+ * left, and prefixes it when the slug would start with a digit, which
+ * SCSS variables can't.
+ */
+export function tokenSlug(text: string, fallback = "color"): string {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  if (!slug) return fallback;
+  return /^\d/.test(slug) ? `${fallback}-${slug}` : slug;
+}
+
+function makeToken(name: string, label: string, color: chroma.Color): ColorToken {
+  const [L, a, b] = color.lab();
+  const [, C, H] = color.lch();
+  return {
+    name,
+    label,
+    hex: color.hex(),
+    lab: [round1(L), round1(a), round1(b)],
+    // Hue is undefined for grays
+    lch: [round1(L), round1(C), Number.isNaN(H) ? 0 : round1(H)],
+  };
+}
+
+/**
+ * Tokens named after the swatches (item names), or by position when
+ * `positional` is set. Names are made unique with -2, -3, ….
+ */
+export function buildTokens(swatches: NamedSwatch[], positional = false): ColorToken[] {
+  const used = new Set<string>();
+  return swatches.map(({ name, color }, i) => {
+    const base = positional ? `color-${i + 1}` : tokenSlug(name);
+    let unique = base;
+    // "Wall", "Wall", "Wall 2" must not give two wall-2s
+    for (let n = 2; used.has(unique); n++) unique = `${base}-${n}`;
+    used.add(unique);
+    const label = positional ? `Color ${i + 1}` : name;
+    return makeToken(unique, label, color);
+  });
+}
+
+function describe(token: ColorToken): string {
+  return `LAB ${token.lab.join(" ")} · LCH ${token.lch.join(" ")}`;
+}
+
+/** User text made safe inside a one-line /* … *\/ or // comment */
+function commentText(text: string): string {
+  return text.replace(/\*\//g, "* /").replace(/[\r\n\u2028\u2029]+/g, " ");
+}
+
+// ─── Formats ─────────────────────────────────────────────────────
+
+function toCSS(title: string, tokens: ColorToken[]): string {
+  const lines = [`/* ${commentText(title)} — generated by ColorGen. LAB/LCH are CIELAB D65. */`, ":root {"];
+  for (const t of tokens) {
+    lines.push(`  --${t.name}: ${t.hex}; /* ${commentText(t.label)} · ${describe(t)} */`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+function toSCSS(title: string, tokens: ColorToken[]): string {
+  const lines = [`// ${commentText(title)} — generated by ColorGen. LAB/LCH are CIELAB D65.`];
+  for (const t of tokens) {
+    lines.push(`$${t.name}: ${t.hex}; // ${commentText(t.label)} · ${describe(t)}`);
+  }
+  lines.push("", "$palette: (");
+  for (const t of tokens) lines.push(`  "${t.name}": $${t.name},`);
+  lines.push(");");
+  return lines.join("\n") + "\n";
+}
+
+function toTailwind(title: string, tokens: ColorToken[]): string {
+  const lines = [
+    `// ${commentText(title)} — generated by ColorGen. LAB/LCH are CIELAB D65.`,
+    "// Spread into theme.extend.colors in tailwind.config.js.",
+    "module.exports = {",
+  ];
+  for (const t of tokens) {
+    lines.push(`  ${JSON.stringify(t.name)}: "${t.hex}", // ${commentText(t.label)} · ${describe(t)}`);
+  }
+  lines.push("};");
+  return lines.join("\n") + "\n";
+}
+
+function toDTCG(title: string, tokens: ColorToken[]): string {
+  const group: Record<string, unknown> = {
+    $description: `${title} — generated by ColorGen`,
+  };
+  for (const t of tokens) {
+    group[t.name] = {
+      $type: "color",
+      $value: t.hex,
+      $description: t.label,
+      $extensions: {
+        "app.colorgen": {
+          lab: t.lab,
+          lch: t.lch,
+          whitePoint: "D65",
+        },
+      },
+    };
+  }
+  return JSON.stringify({ [tokenSlug(title, "palette")]: group }, null, 2) + "\n";
+}
+
+export function exportTokens(format: TokenFormat, title: string, tokens: ColorToken[]): string {
+  switch (format) {
+    case "css":
+      return toCSS(title, tokens);
+    case "scss":
+      return toSCSS(title, tokens);
+    case "tailwind":
+      return toTailwind(title, tokens);
+    case "dtcg":
+      return toDTCG(title, tokens);
+  }
+}